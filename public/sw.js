@@ -0,0 +1,71 @@
+// Hoole Gap Monitor service worker: keeps the app shell available offline
+// and turns notification clicks into a focused window.
+
+const CACHE = 'hoole-shell-v2';
+const SHELL = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+
+// The worker registers after the page has loaded its bundle, so the hashed
+// scripts and styles index.html points at are cached here rather than on a later fetch
+const precache = async () => {
+  const cache = await caches.open(CACHE);
+  await cache.addAll(SHELL);
+  const html = await (await cache.match('/index.html')).text();
+  const assets = [...html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g)].map((m) => m[1]);
+  await cache.addAll([...new Set(assets)]);
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(precache().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((k) => k !== CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // Market data sources are cross-origin and must never be served from cache
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+  // Same goes for local JSON sources such as /market-sample.json
+  if (url.pathname.endsWith('.json')) return;
+
+  if (request.mode === 'navigate') {
+    // Network first so deploys show up, cached shell when offline
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          const copy = response.clone();
+          caches.open(CACHE).then((cache) => cache.put('/index.html', copy));
+          return response;
+        })
+        .catch(() => caches.match('/index.html')),
+    );
+    return;
+  }
+
+  // Hashed build assets never change, so serve from cache and fill on first use
+  event.respondWith(
+    caches.match(request).then((cached) => cached || fetch(request).then((response) => {
+      if (response.ok) {
+        const copy = response.clone();
+        caches.open(CACHE).then((cache) => cache.put(request, copy));
+      }
+      return response;
+    })),
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((c) => 'focus' in c);
+      return client ? client.focus() : self.clients.openWindow('/');
+    }),
+  );
+});
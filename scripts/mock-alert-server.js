@@ -0,0 +1,48 @@
+// Local stand-in for Telegram, outbound webhooks and the email relay.
+//
+//   npm run mock:alerts            listens on http://localhost:8787
+//   PORT=9000 FAIL=2 npm run mock:alerts
+//
+// Point a channel at it (Telegram API base, webhook or relay URL) and use the
+// test button. FAIL=n answers the first n requests with 503 to exercise the
+// retry backoff; STATUS=400 makes every request fail without retries.
+import http from 'node:http';
+
+const port = Number(process.env.PORT ?? 8787);
+let failuresLeft = Number(process.env.FAIL ?? 0);
+const forcedStatus = process.env.STATUS ? Number(process.env.STATUS) : null;
+
+const cors = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+};
+
+const reply = (res, status, body) => {
+  res.writeHead(status, { ...cors, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, cors);
+    res.end();
+    return;
+  }
+
+  let raw = '';
+  req.on('data', (chunk) => { raw += chunk; });
+  req.on('end', () => {
+    const kind = /\/bot[^/]*\/sendMessage$/.test(req.url) ? 'telegram' : 'webhook/relay';
+    console.log(`[${new Date().toISOString()}] ${req.method} ${req.url} (${kind})`);
+    if (req.headers.authorization) console.log(`  auth: ${req.headers.authorization}`);
+    console.log(`  ${raw}`);
+
+    if (forcedStatus) return reply(res, forcedStatus, { ok: false, description: 'forced failure' });
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      return reply(res, 503, { ok: false, description: 'simulated outage' });
+    }
+    reply(res, 200, { ok: true });
+  });
+}).listen(port, () => console.log(`Mock alert server on http://localhost:${port}`));
@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from 'vitest';
+import { act, cleanup, render, screen, fireEvent } from '@testing-library/react';
+import App from './App';
+import { saveSettings, DEFAULT_SETTINGS } from './lib/settings';
+import { DEFAULT_SOURCES } from './lib/providers';
+import { createPair } from './lib/pairs';
+import { jsonResponse, mockFetch, payloadForGap } from './test/fixtures';
+
+// A profile that points at a VPS, so "CONECTAR LOCAL" has somewhere to go
+const useVps = (pairs = DEFAULT_SETTINGS.profiles[0].pairs) => saveSettings({
+  ...DEFAULT_SETTINGS,
+  muted: true,
+  profiles: DEFAULT_SETTINGS.profiles.map((p) => ({
+    ...p,
+    pairs,
+    sources: { ...DEFAULT_SOURCES, providers: [{ ...DEFAULT_SOURCES.providers[0], url: 'http://vps.test/webhook' }] },
+  })),
+});
+
+const quiet = () => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+};
+
+describe('App', () => {
+  it('shows the live gap once connected', async () => {
+    quiet();
+    useVps();
+    const fetchMock = mockFetch(jsonResponse(payloadForGap(7.5)));
+    render(<App />);
+    fireEvent.click(screen.getByText('CONECTAR LOCAL'));
+
+    expect(await screen.findByText('MERCADO ESTABLE')).toBeInTheDocument();
+    expect(screen.getByText(/7,50\s?%/)).toBeInTheDocument();
+    expect(screen.getByText(/^RECIBIDO .* \(HORA LOCAL\)$/)).toBeInTheDocument(); // the payload carries no time of its own
+    expect(fetchMock).toHaveBeenCalledWith('http://vps.test/webhook', expect.anything());
+  });
+
+  it('raises the devaluation banner above the threshold', async () => {
+    quiet();
+    useVps();
+    mockFetch(jsonResponse(payloadForGap(12)));
+    render(<App />);
+    fireEvent.click(screen.getByText('CONECTAR LOCAL'));
+
+    expect(await screen.findByText('¡ALERTA DE DEVALUACIÓN!')).toBeInTheDocument();
+    expect(screen.getByText('ALERTA ROJA')).toBeInTheDocument();
+  });
+
+  it('explains a failed connection and retries on request', async () => {
+    quiet();
+    useVps();
+    const fetchMock = mockFetch(new TypeError('Failed to fetch'), jsonResponse(payloadForGap(7.5)));
+    render(<App />);
+    fireEvent.click(screen.getByText('CONECTAR LOCAL'));
+
+    expect(await screen.findByText('DEGRADADO')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Salud de datos'));
+    expect(screen.getByText('ERROR DE RED O CORS (Habilita CORS en n8n)')).toBeInTheDocument();
+    fireEvent.click(screen.getByText('Reintentar'));
+    expect(await screen.findByText('MERCADO ESTABLE')).toBeInTheDocument();
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('flags an aging source time without waiting for a new reading', async () => {
+    quiet();
+    useVps();
+    vi.useFakeTimers({ shouldAdvanceTime: true });
+    // Later polls never answer, so only the clock can bring the warning up
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(jsonResponse(payloadForGap(7.5, new Date().toISOString())))
+      .mockReturnValue(new Promise(() => {})));
+    render(<App />);
+    fireEvent.click(screen.getByText('CONECTAR LOCAL'));
+    await screen.findByText('MERCADO ESTABLE');
+    expect(screen.queryByText(/LA FUENTE REPORTA/)).not.toBeInTheDocument();
+
+    await act(() => vi.advanceTimersByTimeAsync(16 * 60 * 1000));
+    expect(screen.getByText(/LA FUENTE REPORTA .* \(HACE 16 MIN\)/)).toBeInTheDocument();
+    // jsdom runs animation frames on an interval; let the pending ones finish before the real clock returns
+    cleanup();
+    vi.advanceTimersByTime(100);
+  });
+
+  it('lists an unfinished pair with its problem instead of polling it', async () => {
+    quiet();
+    useVps([{ ...createPair(), name: 'USD / ARS' }]);
+    const fetchMock = mockFetch(jsonResponse(payloadForGap(7.5)));
+    render(<App />);
+    fireEvent.click(screen.getByText('CONECTAR LOCAL'));
+    await screen.findByText('MERCADO ESTABLE');
+    fireEvent.click(screen.getByLabelText('Pares'));
+
+    expect(await screen.findByText('USD / ARS')).toBeInTheDocument();
+    expect(screen.getByText('URL requerida')).toBeInTheDocument();
+    expect(fetchMock).not.toHaveBeenCalledWith('', expect.anything());
+  });
+
+  it('replays the demo scenario without touching the network', async () => {
+    quiet();
+    const fetchMock = mockFetch(jsonResponse(payloadForGap(7.5)));
+    render(<App />);
+    fireEvent.click(screen.getByText('Modo Demostración'));
+
+    expect(await screen.findByText('DEMO')).toBeInTheDocument();
+    expect(screen.getByText('Demo · Aleatorio #1')).toBeInTheDocument();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('switches the interface to English from the settings', async () => {
+    quiet();
+    useVps();
+    mockFetch(jsonResponse(payloadForGap(7.5)));
+    render(<App />);
+    fireEvent.click(screen.getByText('CONECTAR LOCAL'));
+    await screen.findByText('MERCADO ESTABLE');
+
+    fireEvent.click(screen.getByLabelText('Configuración'));
+    fireEvent.click(screen.getByText('English'));
+    fireEvent.click(screen.getByLabelText('Monitor'));
+
+    expect(await screen.findByText('STABLE MARKET')).toBeInTheDocument();
+    expect(screen.getByText(/7\.50\s?%/)).toBeInTheDocument();
+  });
+});
@@ -1,340 +1,541 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { TrendingUp, TrendingDown, Landmark, Wallet, Activity, AlertTriangle, ShieldCheck, Volume2, VolumeX, Zap } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useRef, useMemo, useSyncExternalStore } from 'react';
+import { TrendingUp, TrendingDown, Landmark, Wallet, Activity, AlertTriangle, ShieldCheck, Volume2, VolumeX, Zap, SlidersHorizontal, Server, WifiOff, Calculator, LayoutList, Settings as SettingsIcon } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-
-interface MarketData {
-  precio_pivote_bcv: string;
-  precio_paralelo_usdt: string;
-  brecha_bs: string;
-  brecha_porcentaje: string;
-  timestamp: string;
-  status: 'stable' | 'devaluation' | 'appreciation';
-}
+import HistoryView from './components/HistoryView';
+import HealthPanel from './components/HealthPanel';
+import RulesEditor from './components/RulesEditor';
+import SettingsView from './components/SettingsView';
+import CalculatorView from './components/CalculatorView';
+import ReplayPanel from './components/ReplayPanel';
+import ExportBar from './components/ExportBar';
+import PairList from './components/PairList';
+import type { HistoryMetric } from './lib/history';
+import { loadRules, saveRules, describeTrigger } from './lib/alertRules';
+import type { AlertRule } from './lib/alertRules';
+import { DEFAULT_SOURCES } from './lib/providers';
+import type { SourcesConfig } from './lib/providers';
+import { loadSettings, saveSettings, activeProfile, readQueryOverrides, applySourceOverrides, applySettingsOverrides, editSettings, validateUrl, validatePair } from './lib/settings';
+import type { Settings, SettingsState } from './lib/settings';
+import { formatAmount, formatPercent, formatTime } from './lib/format';
+import { generateRandomWalk, DEFAULT_SYNTHETIC } from './lib/replay';
+import type { ReplayScenario } from './lib/replay';
+import { dispatchAlert, appendDelivery, loadDeliveryLog, saveDeliveryLog } from './lib/dispatch';
+import type { ChannelConfig, DeliveryEntry } from './lib/dispatch';
+import { describeStaleness } from './lib/quality';
+import { createMonitor } from './lib/monitor';
+import type { Monitor } from './lib/monitor';
+import { createPairMonitor, pairInfo, PRIMARY_PAIR_ID, PRIMARY_GAUGE_MAX } from './lib/pairs';
+import type { PairInfo } from './lib/pairs';
+import { translateText } from './lib/i18n';
+import { createI18n, I18nContext } from './hooks/useI18n';
+import { playMarketSound } from './lib/sound';
+import { notifyStatusChange, requestNotificationPermission } from './lib/pwa';
+import type { ConnectionState } from './lib/stream';
+import type { MarketData } from './types';
+
+const STALE_CHECK_MS = 30000;
+
+const CONNECTION_DOTS: Record<ConnectionState, string> = {
+  connecting: 'bg-gray-500 animate-pulse',
+  live: 'bg-hoole-gold animate-pulse',
+  reconnecting: 'bg-hoole-rose animate-pulse',
+  polling: 'bg-hoole-gold',
+  stale: 'bg-hoole-rose',
+};
 
 const App: React.FC = () => {
-  const [data, setData] = useState<MarketData | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [muted, setMuted] = useState(true);
+  const [isOffline, setIsOffline] = useState(!navigator.onLine);
   const [hasInteracted, setHasInteracted] = useState(false);
-  const [isDemo, setIsDemo] = useState(false);
-  const [webhookUrl, setWebhookUrl] = useState('https://n8n.jairokov.com/webhook/gap-data');
+  const [settingsState, setSettingsState] = useState<SettingsState>(() => ({
+    stored: loadSettings(),
+    overrides: readQueryOverrides(window.location.search),
+  }));
   const [tempUrl, setTempUrl] = useState('');
   const [showUrlInput, setShowUrlInput] = useState(false);
+  const [view, setView] = useState<'live' | 'pairs' | 'history' | 'rules' | 'settings' | 'calculator'>('live');
+  const [selectedPairId, setSelectedPairId] = useState(PRIMARY_PAIR_ID);
+  const [historyMetric, setHistoryMetric] = useState<HistoryMetric>('gapPct');
+  const [rules, setRules] = useState<AlertRule[]>(loadRules);
+  const [scenario, setScenario] = useState<ReplayScenario>(() => generateRandomWalk(DEFAULT_SYNTHETIC));
+  const [deliveryLog, setDeliveryLog] = useState<DeliveryEntry[]>(loadDeliveryLog);
+  const [showHealth, setShowHealth] = useState(false);
+
+  // --- Settings ---
+  // URL overrides are applied on read, so a shared link never ends up in storage
+  const { stored: storedSettings, overrides } = settingsState;
+  const settings = useMemo(() => applySettingsOverrides(storedSettings, overrides), [storedSettings, overrides]);
+  const setSettings = useCallback((update: Settings | ((prev: Settings) => Settings)) =>
+    setSettingsState((prev) => editSettings(prev, typeof update === 'function' ? update : () => update)), []);
+  const profile = activeProfile(settings);
+  const sources = useMemo(() => applySourceOverrides(profile.sources, overrides), [profile.sources, overrides]);
+  // A pair missing a URL or with crossed thresholds gets no monitor until it is fixed
+  const pairs = useMemo(() => profile.pairs.filter((p) => p.enabled && !validatePair(p)), [profile.pairs]);
+  const invalidPairs = profile.pairs.flatMap((pair) => {
+    const pairError = pair.enabled && validatePair(pair);
+    return pairError ? [{ info: pairInfo(pair), error: pairError }] : [];
+  });
+  const muted = settings.muted;
+  const isDemo = settings.demo;
+  const i18n = useMemo(() => createI18n(settings.language), [settings.language]);
+  const { t, locale } = i18n;
+  const setMuted = (value: boolean) => setSettings((prev) => ({ ...prev, muted: value }));
+  const setIsDemo = (value: boolean) => setSettings((prev) => ({ ...prev, demo: value }));
+  const setSources = (update: (prev: SourcesConfig) => SourcesConfig) => setSettings((prev) => ({
+    ...prev,
+    profiles: prev.profiles.map((p) => (p.id === prev.activeProfileId ? { ...p, sources: update(p.sources) } : p)),
+  }));
+
+  useEffect(() => {
+    saveSettings(storedSettings);
+  }, [storedSettings]);
+
+  const rulesRef = useRef(rules);
+  const sourcesRef = useRef(sources);
+  const pairsRef = useRef(pairs);
+  const mutedRef = useRef(muted);
+  const channelsRef = useRef(settings.channels);
+  const deliveryLogRef = useRef(deliveryLog);
+  const i18nRef = useRef(i18n);
+
+  // Rules are read through a ref so editing them doesn't restart polling
+  useEffect(() => {
+    rulesRef.current = rules;
+    saveRules(rules);
+  }, [rules]);
+
+  useEffect(() => {
+    sourcesRef.current = sources;
+  }, [sources]);
+
+  useEffect(() => {
+    pairsRef.current = pairs;
+  }, [pairs]);
 
-  const lastStatusRef = useRef<'stable' | 'devaluation' | 'appreciation' | null>(null);
-
-  // --- Audio Synthesis Engine ---
-  const playMarketSound = useCallback(async (type: 'up' | 'down' | 'welcome') => {
-    if (muted) return;
-
-    try {
-      const AudioContextClass = (window.AudioContext || (window as any).webkitAudioContext);
-      const context = new AudioContextClass();
-      if (context.state === 'suspended') await context.resume();
-
-      if (type === 'up') {
-        const osc = context.createOscillator();
-        const gain = context.createGain();
-        osc.type = 'sawtooth';
-        osc.frequency.setValueAtTime(440, context.currentTime);
-        osc.frequency.linearRampToValueAtTime(880, context.currentTime + 0.15);
-        osc.frequency.linearRampToValueAtTime(440, context.currentTime + 0.3);
-        gain.gain.setValueAtTime(0, context.currentTime);
-        gain.gain.linearRampToValueAtTime(0.12, context.currentTime + 0.05);
-        gain.gain.linearRampToValueAtTime(0, context.currentTime + 0.4);
-        osc.connect(gain); gain.connect(context.destination);
-        osc.start(); osc.stop(context.currentTime + 0.4);
-      } else if (type === 'down') {
-        const notes = [523.25, 783.99, 1046.50];
-        notes.forEach((freq, i) => {
-          const osc = context.createOscillator();
-          const gain = context.createGain();
-          osc.type = 'sine';
-          osc.frequency.setValueAtTime(freq, context.currentTime + i * 0.08);
-          gain.gain.setValueAtTime(0, context.currentTime + i * 0.08);
-          gain.gain.linearRampToValueAtTime(0.08, context.currentTime + i * 0.08 + 0.04);
-          gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + i * 0.08 + 0.5);
-          osc.connect(gain); gain.connect(context.destination);
-          osc.start(context.currentTime + i * 0.08); osc.stop(context.currentTime + i * 0.08 + 0.5);
-        });
-      } else if (type === 'welcome') {
-        const osc = context.createOscillator();
-        const gain = context.createGain();
-        osc.type = 'sine';
-        osc.frequency.setValueAtTime(880, context.currentTime);
-        osc.frequency.exponentialRampToValueAtTime(440, context.currentTime + 0.5);
-        gain.gain.setValueAtTime(0, context.currentTime);
-        gain.gain.linearRampToValueAtTime(0.05, context.currentTime + 0.1);
-        gain.gain.linearRampToValueAtTime(0, context.currentTime + 0.5);
-        osc.connect(gain); gain.connect(context.destination);
-        osc.start(); osc.stop(context.currentTime + 0.5);
-      }
-    } catch (e) { console.error("Audio error:", e); }
+  useEffect(() => {
+    mutedRef.current = muted;
   }, [muted]);
 
-  // --- Real-time Data Fetching ---
-  const fetchData = useCallback(async () => {
-    if (isDemo) return;
-
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 8000);
-
-      const response = await fetch(webhookUrl, { signal: controller.signal });
-      clearTimeout(timeoutId);
-
-      if (!response.ok) throw new Error(`Error HTTP: ${response.status}`);
-      const result = await response.json();
-
-      if (!result.analisis || !result.analisis.brecha_porcentaje) {
-        throw new Error('Formato de datos n8n no reconocido');
-      }
-
-      // Determine status based on variation (Logic from USDTVES)
-      const parseGap = (val: string) => parseFloat(val.replace('%', '').replace(',', '.'));
-      const newGap = parseGap(result.analisis.brecha_porcentaje);
-
-      let status: 'stable' | 'devaluation' | 'appreciation' = 'stable';
-      if (newGap > 9) status = 'devaluation';
-      else if (newGap < 6) status = 'appreciation';
-
-      const marketData: MarketData = {
-        ...result.analisis,
-        timestamp: result.timestamp || new Date().toLocaleTimeString(),
-        status
-      };
-
-      setData(marketData);
-      setLoading(false);
-      setError(null);
-
-      // Play sound only on status change
-      if (status !== lastStatusRef.current) {
-        if (status === 'devaluation') playMarketSound('up');
-        else if (status === 'appreciation') playMarketSound('down');
-        lastStatusRef.current = status;
-      }
-    } catch (err: any) {
-      console.error("Fetch error:", err);
-      if (err.name === 'AbortError') {
-        setError("TIEMPO DE ESPERA AGOTADO (Timeout)");
-      } else if (err.message.includes('Failed to fetch') || err.message.includes('NetworkError')) {
-        setError("ERROR DE RED O CORS (Habilita CORS en n8n)");
-      } else {
-        setError(err.message || "ERROR DE CONEXIÓN");
-      }
-      setLoading(false);
-    }
-  }, [isDemo, playMarketSound, webhookUrl]);
-
-  // Demo Scenarios for fallback/testing
-  const demoScenarios: MarketData[] = [
-    { precio_pivote_bcv: "Bs. 51,20", precio_paralelo_usdt: "Bs. 54,80", brecha_bs: "Bs. 3,60", brecha_porcentaje: "7.03%", timestamp: "Modo Demo", status: 'stable' },
-    { precio_pivote_bcv: "Bs. 51,20", precio_paralelo_usdt: "Bs. 56,10", brecha_bs: "Bs. 4,90", brecha_porcentaje: "9.57%", timestamp: "Alerta de Subida", status: 'devaluation' },
-    { precio_pivote_bcv: "Bs. 51,20", precio_paralelo_usdt: "Bs. 53,90", brecha_bs: "Bs. 2,70", brecha_porcentaje: "5.27%", timestamp: "Aviso de Bajada", status: 'appreciation' }
-  ];
+  useEffect(() => {
+    channelsRef.current = settings.channels;
+  }, [settings.channels]);
+
+  useEffect(() => {
+    i18nRef.current = i18n;
+  }, [i18n]);
+
+  useEffect(() => {
+    saveDeliveryLog(deliveryLog);
+  }, [deliveryLog]);
 
   useEffect(() => {
-    if (isDemo) {
-      let step = 0;
-      const interval = setInterval(() => {
-        setData(demoScenarios[step]);
-        setLoading(false);
-        setLoading(false);
-        if (demoScenarios[step].status === 'devaluation') playMarketSound('up');
-        else if (demoScenarios[step].status === 'appreciation') playMarketSound('down');
-        step = (step + 1) % demoScenarios.length;
-      }, 6000);
-      return () => clearInterval(interval);
-    } else if (hasInteracted) {
-      fetchData();
-      const interval = setInterval(fetchData, 30000); // Poll every 30s
-      return () => clearInterval(interval);
-    }
-  }, [isDemo, fetchData, playMarketSound, hasInteracted]);
-
-  const parseGap = (val: string | undefined) => val ? parseFloat(val.replace('%', '').replace(',', '.')) : 0;
-  const currentGap = parseGap(data?.brecha_porcentaje);
+    const update = () => setIsOffline(!navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  // --- Outbound Alerts ---
+  const recordDelivery = useCallback((entry: DeliveryEntry) => {
+    deliveryLogRef.current = appendDelivery(deliveryLogRef.current, entry);
+    setDeliveryLog(deliveryLogRef.current);
+  }, []);
+
+  const sendAlert = useCallback((marketData: MarketData, detail: string | null, channels: ChannelConfig[], force = false) => {
+    const { t, locale } = i18nRef.current;
+    dispatchAlert(channels, marketData, detail, { log: deliveryLogRef.current, onEntry: recordDelivery, force, t, locale })
+      .catch((e) => console.error("Dispatch error:", e));
+  }, [recordDelivery]);
+
+  // --- Monitor ---
+  // The store owns the reading pipeline; settings reach it through refs so editing them doesn't restart the feed
+  const [monitor] = useState(() => createMonitor({
+    getConfig: () => ({ rules: rulesRef.current, sources: sourcesRef.current, muted: mutedRef.current }),
+    onTransition: (marketData, trigger, live) => {
+      const { t, locale } = i18nRef.current;
+      const detail = trigger && describeTrigger(trigger, locale);
+      // Sounds are easy to miss on a phone, so background tabs also get a system notification
+      if (document.visibilityState === 'hidden') notifyStatusChange(marketData, detail, t, locale);
+      // Rehearsals stay local
+      if (live) sendAlert(marketData, detail, channelsRef.current);
+    },
+  }));
+  const primary = useSyncExternalStore(monitor.subscribe, monitor.getState);
+
+  // Each extra pair gets its own monitor, kept for as long as the pair stays enabled and valid.
+  // Keyed by id only, so editing a pair's fields doesn't restart its feed. Built in an
+  // effect rather than during render, so a discarded render never leaves one behind.
+  const [pairMonitors, setPairMonitors] = useState(() => new Map<string, Monitor>());
+  const pairMonitorsRef = useRef(pairMonitors);
+  const pairIds = pairs.map((p) => p.id).join(' ');
+  useEffect(() => {
+    const previous = pairMonitorsRef.current;
+    pairMonitorsRef.current = new Map(pairsRef.current.map((pair) => {
+      let latest = pair; // outlives the pair's removal while a poll is still in flight
+      return [pair.id, previous.get(pair.id) ?? createPairMonitor({
+        getPair: () => (latest = pairsRef.current.find((p) => p.id === pair.id) ?? latest),
+        getShared: () => ({ sources: sourcesRef.current, muted: mutedRef.current }),
+        onTransition: (marketData, trigger) => {
+          const { t, locale } = i18nRef.current;
+          if (document.visibilityState === 'hidden') notifyStatusChange(marketData, trigger && describeTrigger(trigger, locale), t, locale, pairInfo(latest));
+        },
+      })];
+    }));
+    setPairMonitors(pairMonitorsRef.current);
+  }, [pairIds]);
+  // A pair just added is listed once its monitor exists
+  const pairRows = pairs.flatMap((pair) => {
+    const pairMonitor = pairMonitors.get(pair.id);
+    return pairMonitor ? [{ info: pairInfo(pair), monitor: pairMonitor }] : [];
+  });
+
+  // The demo only replays the main pair
+  const shownPair = isDemo ? undefined : pairs.find((p) => p.id === selectedPairId);
+  const shownMonitor = (shownPair && pairMonitors.get(shownPair.id)) || monitor;
+  const primaryInfo: PairInfo = {
+    id: PRIMARY_PAIR_ID,
+    name: 'USD / VES',
+    officialLabel: t('pair.primary.official'),
+    parallelLabel: t('pair.primary.parallel'),
+    base: 'USD',
+    currency: 'VES',
+    gaugeMax: PRIMARY_GAUGE_MAX,
+  };
+  const shownInfo = shownPair ? pairInfo(shownPair) : primaryInfo;
+  const { data, isFresh, error, trigger, connection, health, session } = useSyncExternalStore(shownMonitor.subscribe, shownMonitor.getState);
+
+  const { kind: streamKind, url: streamUrl } = sources.stream;
+
+  // The VPS overlay edits the first n8n source, creating it if it was removed
+  const webhookUrl = profile.sources.providers.find((p) => p.kind === 'n8n')?.url ?? '';
+  const tempUrlError = validateUrl(tempUrl);
+  const setWebhookUrl = (url: string) => setSources((prev) => {
+    const primary = prev.providers.find((p) => p.kind === 'n8n');
+    return primary
+      ? { ...prev, providers: prev.providers.map((p) => (p.id === primary.id ? { ...p, url, enabled: true } : p)) }
+      : { ...prev, providers: [{ ...DEFAULT_SOURCES.providers[0], url }, ...prev.providers] };
+  });
+
+  // --- Feeds ---
+  useEffect(() => {
+    if (isDemo && hasInteracted) return monitor.startReplay(scenario);
+  }, [isDemo, hasInteracted, scenario, monitor]);
+
+  // Kept apart from the demo loop so toggling sound doesn't drop the live connection
+  useEffect(() => {
+    if (!isDemo && hasInteracted) return monitor.startLive({ kind: streamKind, url: streamUrl });
+  }, [isDemo, hasInteracted, streamKind, streamUrl, monitor]);
+
+  // Extra pairs are polled only; their endpoints don't push
+  useEffect(() => {
+    if (isDemo || !hasInteracted) return;
+    const stops = [...pairMonitors.values()].map((m) => m.startLive({ kind: 'off', url: '' }));
+    return () => stops.forEach((stop) => stop());
+  }, [isDemo, hasInteracted, pairMonitors]);
+
+  // Staleness depends on the clock as well as the data, so re-check it while nothing new arrives
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), STALE_CHECK_MS);
+    return () => clearInterval(id);
+  }, []);
+
+  const currentGap = data?.gapPct ?? 0;
+  const connectionTheme = isDemo
+    ? { label: t('connection.demo'), dot: 'bg-hoole-gold animate-pulse' }
+    : isOffline ? { label: t('connection.offline'), dot: 'bg-hoole-rose' } : { label: t(`connection.${connection}`), dot: CONNECTION_DOTS[connection] };
+  // A cached reading from an earlier visit is already flagged by isFresh
+  const staleReason = data && !isDemo && isFresh ? describeStaleness(health, data, sources, now) : null;
+  const isStale = !isDemo && (isOffline || connection === 'stale' || !isFresh || !!staleReason);
+  const staleText = staleReason
+    ? t(`stale.${staleReason.kind}`, { time: formatTime(staleReason.since, locale), minutes: Math.round((now - staleReason.since) / 60000) })
+    : data && t('stale.since', { time: formatTime(data.receivedAt, locale) });
   const isVariationAlert = data?.status !== 'stable';
-  const trend = data?.status === 'devaluation' ? 'SUBIDA' : 'BAJADA';
+  const isRising = data?.status === 'devaluation';
+
+  const triggerText = trigger ? describeTrigger(trigger, locale) : null;
 
   const alertTheme = data?.status === 'devaluation' ? {
     bg: 'bg-hoole-rose', text: 'text-hoole-rose', shadow: 'shadow-[0_0_60px_rgba(244,63,94,0.7)]',
-    msg: '¡ALERTA DE DEVALUACIÓN!', sub: 'El mercado se escapa (+2.5%)', icon: <AlertTriangle className="w-5 h-5" />
+    msg: shownPair ? t('banner.pairDevaluation', { pair: shownPair.name }) : t('banner.devaluation'), sub: triggerText, icon: <AlertTriangle className="w-5 h-5" />
   } : data?.status === 'appreciation' ? {
     bg: 'bg-hoole-emerald', text: 'text-hoole-emerald', shadow: 'shadow-[0_0_60px_rgba(16,185,129,0.7)]',
-    msg: '¡REUPERACIÓN DEL BOLÍVAR!', sub: 'La brecha retrocede (-4.3%)', icon: <ShieldCheck className="w-5 h-5" />
+    msg: shownPair ? t('banner.pairAppreciation', { pair: shownPair.name }) : t('banner.appreciation'), sub: triggerText, icon: <ShieldCheck className="w-5 h-5" />
   } : null;
 
-  const maxGap = 20;
-  const percentageOfMax = Math.min((currentGap / maxGap) * 100, 100);
+  const percentageOfMax = Math.min((currentGap / shownInfo.gaugeMax) * 100, 100);
+
+  const openHistory = (metric: HistoryMetric) => {
+    setHistoryMetric(metric);
+    setView('history');
+  };
+
+  const selectPair = (id: string) => {
+    setSelectedPairId(id);
+    setView('live');
+  };
 
   const enableAudio = () => {
-    setMuted(false);
     setHasInteracted(true);
-    playMarketSound('welcome');
+    if (!muted) playMarketSound('welcome');
+    requestNotificationPermission();
   };
 
   return (
-    <div className="min-h-screen bg-hoole-black text-white font-sans selection:bg-hoole-gold selection:text-black">
-      {!hasInteracted && !loading && (
-        <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="fixed inset-0 z-[100] bg-black/95 backdrop-blur-xl flex items-center justify-center p-6 text-center">
-          <div className="glass p-12 rounded-[3.5rem] border border-hoole-gold/40 shadow-2xl shadow-hoole-gold/10 max-w-sm w-full">
-            <div className="w-24 h-24 bg-hoole-gold/20 rounded-full flex items-center justify-center mx-auto mb-10 shadow-2xl shadow-hoole-gold/30">
-              <Zap className="w-12 h-12 text-hoole-gold animate-pulse" />
-            </div>
-
-            {!showUrlInput ? (
-              <>
-                <h2 className="text-3xl font-black mb-4 tracking-tighter">Hoole Engine</h2>
-                <p className="text-sm text-gray-400 mb-10 leading-relaxed font-bold opacity-70 italic">Sincroniza el monitor con el mercado de Venezuela en tiempo real.</p>
-                <div className="flex flex-col gap-3">
-                  <button onClick={enableAudio} className="w-full bg-hoole-gold text-black font-black py-6 rounded-2xl active:scale-95 transition-all shadow-2xl shadow-hoole-gold/50 text-xl tracking-tighter uppercase">
-                    CONECTAR LOCAL
-                  </button>
-                  <button
-                    onClick={() => { setShowUrlInput(true); setTempUrl(webhookUrl); }}
-                    className="w-full bg-white/5 border-2 border-white/10 text-white font-black py-4 rounded-2xl active:scale-95 transition-all text-sm tracking-tighter uppercase"
-                  >
-                    CONFIGURAR VPS
-                  </button>
-                </div>
-              </>
-            ) : (
-              <div className="flex flex-col gap-6">
-                <h2 className="text-2xl font-black tracking-tighter">Configurar VPS</h2>
-                <div className="text-left">
-                  <label className="text-[10px] text-hoole-gold font-black tracking-widest uppercase mb-2 block">Webhook URL de n8n</label>
-                  <input
-                    type="text"
-                    value={tempUrl}
-                    onChange={(e) => setTempUrl(e.target.value)}
-                    placeholder="http://tu-vps-ip:5678/webhook/..."
-                    className="w-full bg-black/50 border-2 border-white/10 rounded-xl px-4 py-4 text-xs font-bold text-white focus:border-hoole-gold outline-none transition-colors"
-                  />
-                </div>
-                <div className="flex flex-col gap-3">
-                  <button
-                    onClick={() => { setWebhookUrl(tempUrl); setShowUrlInput(false); enableAudio(); }}
-                    className="w-full bg-hoole-gold text-black font-black py-5 rounded-2xl active:scale-95 transition-all shadow-2xl shadow-hoole-gold/50 text-lg tracking-tighter uppercase"
-                  >
-                    GUARDAR Y CONECTAR
-                  </button>
-                  <button onClick={() => setShowUrlInput(false)} className="text-[10px] text-gray-550 font-black tracking-widest uppercase">Cancelar</button>
-                </div>
+    <I18nContext.Provider value={i18n}>
+      <div className="min-h-screen bg-hoole-black text-white font-sans selection:bg-hoole-gold selection:text-black">
+        {!hasInteracted && (
+          <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="fixed inset-0 z-[100] bg-black/95 backdrop-blur-xl flex items-center justify-center p-6 text-center">
+            <div className="glass p-12 rounded-[3.5rem] border border-hoole-gold/40 shadow-2xl shadow-hoole-gold/10 max-w-sm w-full">
+              <div className="w-24 h-24 bg-hoole-gold/20 rounded-full flex items-center justify-center mx-auto mb-10 shadow-2xl shadow-hoole-gold/30">
+                <Zap className="w-12 h-12 text-hoole-gold animate-pulse" />
               </div>
-            )}
 
-            <button onClick={() => { setIsDemo(true); enableAudio(); }} className="mt-8 text-[10px] text-gray-600 font-black tracking-widest uppercase hover:text-hoole-gold transition-colors">Modo Demostración</button>
-          </div>
-        </motion.div>
-      )}
+              {!showUrlInput ? (
+                <>
+                  <h2 className="text-3xl font-black mb-4 tracking-tighter">{t('intro.title')}</h2>
+                  <p className="text-sm text-gray-400 mb-10 leading-relaxed font-bold opacity-70 italic">{t('intro.subtitle')}</p>
+                  <div className="flex flex-col gap-3">
+                    {settings.profiles.length > 1 && !isDemo && (
+                      <select value={profile.id} onChange={(e) => setSettings((prev) => ({ ...prev, activeProfileId: e.target.value }))}
+                        className="w-full bg-black/50 border-2 border-white/10 rounded-xl px-4 py-3 text-xs font-black text-hoole-gold uppercase tracking-widest outline-none">
+                        {settings.profiles.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+                      </select>
+                    )}
+                    <button onClick={enableAudio} className="w-full bg-hoole-gold text-black font-black py-6 rounded-2xl active:scale-95 transition-all shadow-2xl shadow-hoole-gold/50 text-xl tracking-tighter uppercase">
+                      {isDemo ? t('intro.continueDemo') : t('intro.connect')}
+                    </button>
+                    <button
+                      onClick={() => { setShowUrlInput(true); setTempUrl(webhookUrl); }}
+                      className="w-full bg-white/5 border-2 border-white/10 text-white font-black py-4 rounded-2xl active:scale-95 transition-all text-sm tracking-tighter uppercase"
+                    >
+                      {t('intro.configure')}
+                    </button>
+                  </div>
+                </>
+              ) : (
+                <div className="flex flex-col gap-6">
+                  <h2 className="text-2xl font-black tracking-tighter">{t('intro.configureTitle')}</h2>
+                  <div className="text-left">
+                    <label className="text-[10px] text-hoole-gold font-black tracking-widest uppercase mb-2 block">{t('intro.webhook')}</label>
+                    <input
+                      type="text"
+                      value={tempUrl}
+                      onChange={(e) => setTempUrl(e.target.value)}
+                      placeholder="http://tu-vps-ip:5678/webhook/..."
+                      className="w-full bg-black/50 border-2 border-white/10 rounded-xl px-4 py-4 text-xs font-bold text-white focus:border-hoole-gold outline-none transition-colors"
+                    />
+                    {tempUrl && tempUrlError && <span className="text-[10px] text-hoole-rose font-black tracking-widest uppercase mt-2 block">{translateText(t, tempUrlError)}</span>}
+                  </div>
+                  <div className="flex flex-col gap-3">
+                    <button
+                      onClick={() => { setWebhookUrl(tempUrl.trim()); setIsDemo(false); setShowUrlInput(false); enableAudio(); }}
+                      disabled={!!tempUrlError}
+                      className="w-full bg-hoole-gold text-black font-black py-5 rounded-2xl active:scale-95 transition-all shadow-2xl shadow-hoole-gold/50 text-lg tracking-tighter uppercase disabled:opacity-40"
+                    >
+                      {t('intro.save')}
+                    </button>
+                    <button onClick={() => setShowUrlInput(false)} className="text-[10px] text-gray-550 font-black tracking-widest uppercase">{t('intro.cancel')}</button>
+                  </div>
+                </div>
+              )}
 
-      <AnimatePresence>
-        {isVariationAlert && alertTheme && (
-          <motion.div key={data?.status} initial={{ height: 0, opacity: 0 }} animate={{ height: 'auto', opacity: 1 }} exit={{ height: 0, opacity: 0 }}
-            className={`${alertTheme.bg} text-white py-8 px-4 flex flex-col items-center justify-center gap-1.5 overflow-hidden z-50 sticky top-0 ${alertTheme.shadow}`}>
-            <div className="flex items-center gap-4">
-              <motion.div animate={{ scale: [1, 1.4, 1] }} transition={{ repeat: Infinity, duration: 0.3 }}><AlertTriangle className="w-5 h-5" /></motion.div>
-              <span className="text-sm font-black tracking-[0.2em]">{alertTheme.msg}</span>
-              <motion.div animate={{ scale: [1, 1.4, 1] }} transition={{ repeat: Infinity, duration: 0.3 }}><AlertTriangle className="w-5 h-5" /></motion.div>
+              {isDemo ? (
+                <button onClick={() => setIsDemo(false)} className="mt-8 text-[10px] text-gray-600 font-black tracking-widest uppercase hover:text-hoole-gold transition-colors">{t('intro.exitDemo')}</button>
+              ) : (
+                <button onClick={() => { setIsDemo(true); enableAudio(); }} className="mt-8 text-[10px] text-gray-600 font-black tracking-widest uppercase hover:text-hoole-gold transition-colors">{t('intro.demo')}</button>
+              )}
             </div>
           </motion.div>
         )}
-      </AnimatePresence>
-
-      <div className="px-6 py-8">
-        <header className="flex justify-between items-center mb-12">
-          <div className="flex items-center gap-4">
-            <div className="w-14 h-14 bg-hoole-gold rounded-[1.2rem] flex items-center justify-center shadow-2xl shadow-hoole-gold/20 text-black font-black text-4xl">H</div>
-            <div className="flex flex-col text-left">
-              <h1 className="text-2xl font-black tracking-tighter leading-none text-white">HOOLE</h1>
-              <span className="text-[11px] text-hoole-gold font-black tracking-[0.3em] uppercase italic opacity-80">GAP MONITOR</span>
+
+        <AnimatePresence>
+          {isVariationAlert && alertTheme && (
+            <motion.div key={data?.status} initial={{ height: 0, opacity: 0 }} animate={{ height: 'auto', opacity: 1 }} exit={{ height: 0, opacity: 0 }}
+              className={`${alertTheme.bg} text-white py-8 px-4 flex flex-col items-center justify-center gap-1.5 overflow-hidden z-50 sticky top-0 ${alertTheme.shadow}`}>
+              <div className="flex items-center gap-4">
+                <motion.div animate={{ scale: [1, 1.4, 1] }} transition={{ repeat: Infinity, duration: 0.3 }}><AlertTriangle className="w-5 h-5" /></motion.div>
+                <span className="text-sm font-black tracking-[0.2em]">{alertTheme.msg}</span>
+                <motion.div animate={{ scale: [1, 1.4, 1] }} transition={{ repeat: Infinity, duration: 0.3 }}><AlertTriangle className="w-5 h-5" /></motion.div>
+              </div>
+              {alertTheme.sub && <span className="text-[11px] font-black tracking-widest uppercase opacity-80">{alertTheme.sub}</span>}
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        <div className="px-6 py-8">
+          <header className="flex justify-between items-center mb-12">
+            <div className="flex items-center gap-4">
+              <div className="w-14 h-14 bg-hoole-gold rounded-[1.2rem] flex items-center justify-center shadow-2xl shadow-hoole-gold/20 text-black font-black text-4xl">H</div>
+              <div className="flex flex-col text-left">
+                <h1 className="text-2xl font-black tracking-tighter leading-none text-white">HOOLE</h1>
+                {settings.profiles.length > 1 ? (
+                  <select value={profile.id} onChange={(e) => setSettings((prev) => ({ ...prev, activeProfileId: e.target.value }))} aria-label={t('nav.profile')}
+                    className="bg-transparent text-[11px] text-hoole-gold font-black tracking-[0.2em] uppercase italic opacity-80 outline-none -ml-1 max-w-[9rem]">
+                    {settings.profiles.map((p) => <option key={p.id} value={p.id} className="bg-hoole-black">{p.name}</option>)}
+                  </select>
+                ) : (
+                  <span className="text-[11px] text-hoole-gold font-black tracking-[0.3em] uppercase italic opacity-80">{t('nav.tagline')}</span>
+                )}
+              </div>
             </div>
-          </div>
-          <div className="flex items-center gap-2">
-            <button onClick={() => setMuted(!muted)} className={`p-4 rounded-2xl transition-all border-2 ${!muted ? 'bg-hoole-gold/20 border-hoole-gold/40' : 'bg-white/5 border-white/5'}`}>
-              {muted ? <VolumeX className="w-6 h-6 text-gray-500" /> : <Volume2 className="w-6 h-6 text-hoole-gold" />}
-            </button>
-          </div>
-        </header>
-
-        <main className="max-w-md mx-auto relative cursor-default pb-32">
-          <AnimatePresence mode="wait">
-            {!data ? (
-              <motion.div key="loading" initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="flex flex-col items-center justify-center py-20">
-                <Activity className="w-16 h-16 text-hoole-gold animate-pulse mb-6" />
-                <p className="text-[10px] text-gray-550 font-black tracking-widest text-center">{error || 'ESTABLECIENDO CONEXIÓN SEGURA...'}</p>
-                {error && <button onClick={fetchData} className="mt-4 text-[11px] text-hoole-gold font-bold underline">Reintentar</button>}
-              </motion.div>
-            ) : (
-              <motion.div key={data.timestamp} initial={{ opacity: 0, scale: 0.98 }} animate={{ opacity: 1, scale: 1 }} transition={{ duration: 0.4 }} className="space-y-12">
-                <div className="relative flex flex-col items-center py-6">
-                  <div className={`absolute inset-0 rounded-full blur-[140px] opacity-30 transition-colors duration-1000 ${isVariationAlert && alertTheme ? alertTheme.bg : 'bg-hoole-gold'}`} />
-                  <svg className="w-80 h-80 transform -rotate-90 relative z-10">
-                    <circle cx="160" cy="160" r="140" stroke="currentColor" strokeWidth="2" fill="transparent" className="text-white/5" />
-                    <motion.circle cx="160" cy="160" r="140" stroke="currentColor" strokeWidth="16" fill="transparent"
-                      strokeDasharray={2 * Math.PI * 140}
-                      initial={{ strokeDashoffset: 2 * Math.PI * 140 }}
-                      animate={{ strokeDashoffset: (2 * Math.PI * 140) * (1 - percentageOfMax / 100) }}
-                      transition={{ duration: 1.5, ease: "circOut" }}
-                      strokeLinecap="round"
-                      className={`${isVariationAlert && alertTheme ? alertTheme.text : 'text-hoole-gold'} transition-colors duration-1000 drop-shadow-[0_0_15px_rgba(196,163,88,0.3)]`}
-                    />
-                  </svg>
-                  <div className="absolute inset-0 flex flex-col items-center justify-center mt-8 z-20">
-                    <span className="text-gray-500 text-[12px] font-black uppercase tracking-[0.5em] mb-2 opacity-50 italic">DIFERENCIAL</span>
-                    <span className={`text-8xl font-black tracking-tighter ${isVariationAlert && alertTheme ? alertTheme.text : 'text-white'} transition-colors duration-1000`}>{data?.brecha_porcentaje}</span>
-                    <div className={`mt-10 px-8 py-3 rounded-full text-[12px] font-black flex items-center gap-3 border shadow-3xl transition-all duration-500 ${isVariationAlert && alertTheme ? `${alertTheme.bg} text-white border-white/20` : 'glass text-gray-500 border-white/5'}`}>
-                      {trend === 'SUBIDA' ? <TrendingUp className="w-5 h-5" /> : <TrendingDown className="w-5 h-5" />}
-                      {data?.status === 'devaluation' ? 'ALERTA ROJA' : data?.status === 'appreciation' ? 'TENDENCIA VERDE' : 'MERCADO ESTABLE'}
+            <div className="flex items-center gap-2">
+              <button onClick={() => setView(view === 'settings' ? 'live' : 'settings')} className={`p-4 rounded-2xl transition-all border-2 ${view === 'settings' ? 'bg-hoole-gold/20 border-hoole-gold/40' : 'bg-white/5 border-white/5'}`} aria-label={t('nav.settings')}>
+                <SettingsIcon className={`w-6 h-6 ${view === 'settings' ? 'text-hoole-gold' : 'text-gray-500'}`} />
+              </button>
+              <button onClick={() => setView(view === 'rules' ? 'live' : 'rules')} className={`p-4 rounded-2xl transition-all border-2 ${view === 'rules' ? 'bg-hoole-gold/20 border-hoole-gold/40' : 'bg-white/5 border-white/5'}`} aria-label={t('nav.rules')}>
+                <SlidersHorizontal className={`w-6 h-6 ${view === 'rules' ? 'text-hoole-gold' : 'text-gray-500'}`} />
+              </button>
+              <button onClick={() => setMuted(!muted)} className={`p-4 rounded-2xl transition-all border-2 ${!muted ? 'bg-hoole-gold/20 border-hoole-gold/40' : 'bg-white/5 border-white/5'}`} aria-label={t('nav.sound')}>
+                {muted ? <VolumeX className="w-6 h-6 text-gray-500" /> : <Volume2 className="w-6 h-6 text-hoole-gold" />}
+              </button>
+            </div>
+          </header>
+
+          <main className="max-w-md mx-auto relative cursor-default pb-32">
+            {isDemo && hasInteracted && view === 'live' && (
+              <ReplayPanel scenario={scenario} state={primary.replay}
+                onPlay={() => monitor.getPlayer()?.play()}
+                onPause={() => monitor.getPlayer()?.pause()}
+                onSeek={(index) => monitor.getPlayer()?.seek(index)}
+                onSpeed={(speed) => monitor.getPlayer()?.setSpeed(speed)}
+                onScenario={setScenario} />
+            )}
+            <AnimatePresence mode="wait">
+              {view === 'settings' ? (
+                <SettingsView key="settings" settings={settings} rules={rules} overrides={overrides} deliveryLog={deliveryLog} onChange={setSettings}
+                  onTestChannel={primary.data ? (channel) => sendAlert(primary.data!, t('live.testMessage'), [{ ...channel, enabled: true }], true) : undefined}
+                  onImport={(imported, importedRules) => { setSettings(imported); if (importedRules) setRules(importedRules); }} />
+              ) : view === 'rules' ? (
+                <RulesEditor key="rules" rules={rules} ruleState={primary.ruleState} onChange={setRules} />
+              ) : view === 'calculator' ? (
+                <CalculatorView key="calculator" data={primary.data} isStale={!isDemo && (isOffline || primary.connection === 'stale' || !primary.isFresh)} />
+              ) : view === 'history' ? (
+                <HistoryView key="history" metric={historyMetric} onMetricChange={setHistoryMetric} refreshKey={primary.data?.receivedAt.toISOString()} />
+              ) : view === 'pairs' ? (
+                <PairList key="pairs" selectedId={shownInfo.id} onSelect={selectPair}
+                  pairs={[{ info: primaryInfo, monitor }, ...pairRows]} invalid={invalidPairs} />
+              ) : !data ? (
+                <motion.div key="loading" initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="flex flex-col items-center justify-center py-20">
+                  <Activity className="w-16 h-16 text-hoole-gold animate-pulse mb-6" />
+                  {error ? (
+                    <div className="w-full">
+                      <HealthPanel health={health} stale={false} expanded={showHealth} onToggle={() => setShowHealth((v) => !v)} />
+                    </div>
+                  ) : (
+                    <p className="text-[10px] text-gray-550 font-black tracking-widest text-center">{t('live.connecting')}</p>
+                  )}
+                  {error && <button onClick={() => shownMonitor.refresh()} className="mt-4 text-[11px] text-hoole-gold font-bold underline">{t('live.retry')}</button>}
+                </motion.div>
+              ) : (
+                <motion.div key={data.receivedAt.getTime()} initial={{ opacity: 0, scale: 0.98 }} animate={{ opacity: 1, scale: 1 }} transition={{ duration: 0.4 }} className="space-y-12">
+                  <div className="relative flex flex-col items-center py-6">
+                    <div className={`absolute inset-0 rounded-full blur-[140px] opacity-30 transition-colors duration-1000 ${isVariationAlert && alertTheme ? alertTheme.bg : 'bg-hoole-gold'}`} />
+                    <svg className="w-80 h-80 transform -rotate-90 relative z-10">
+                      <circle cx="160" cy="160" r="140" stroke="currentColor" strokeWidth="2" fill="transparent" className="text-white/5" />
+                      <motion.circle cx="160" cy="160" r="140" stroke="currentColor" strokeWidth="16" fill="transparent"
+                        strokeDasharray={2 * Math.PI * 140}
+                        initial={{ strokeDashoffset: 2 * Math.PI * 140 }}
+                        animate={{ strokeDashoffset: (2 * Math.PI * 140) * (1 - percentageOfMax / 100) }}
+                        transition={{ duration: 1.5, ease: "circOut" }}
+                        strokeLinecap="round"
+                        className={`${isVariationAlert && alertTheme ? alertTheme.text : 'text-hoole-gold'} transition-colors duration-1000 drop-shadow-[0_0_15px_rgba(196,163,88,0.3)]`}
+                      />
+                    </svg>
+                    <div className="absolute inset-0 flex flex-col items-center justify-center mt-8 z-20">
+                      <span className="text-gray-500 text-[12px] font-black uppercase tracking-[0.5em] mb-2 opacity-50 italic">{shownPair ? shownPair.name : t('live.gap')}</span>
+                      <span className={`text-8xl font-black tracking-tighter ${isVariationAlert && alertTheme ? alertTheme.text : 'text-white'} transition-colors duration-1000`}>{formatPercent(data.gapPct, locale)}</span>
+                      <div className={`mt-10 px-8 py-3 rounded-full text-[12px] font-black flex items-center gap-3 border shadow-3xl transition-all duration-500 ${isVariationAlert && alertTheme ? `${alertTheme.bg} text-white border-white/20` : 'glass text-gray-500 border-white/5'}`}>
+                        {isRising ? <TrendingUp className="w-5 h-5" /> : <TrendingDown className="w-5 h-5" />}
+                        {t(`status.${data.status}`)}
+                      </div>
                     </div>
                   </div>
-                </div>
 
-                <div className="grid grid-cols-1 gap-6">
-                  <div className={`glass rounded-[3rem] p-8 flex items-center justify-between border-l-8 transition-all duration-700 ${data?.status === 'devaluation' ? 'border-hoole-rose shadow-[0_0_50px_rgba(244,63,94,0.4)]' : 'border-hoole-gold'}`}>
-                    <div className="flex items-center gap-6">
-                      <div className={`w-16 h-16 rounded-[1.5rem] flex items-center justify-center transition-colors duration-700 ${data?.status === 'devaluation' ? 'bg-hoole-rose/15' : 'bg-hoole-gold/20'}`}><Wallet className={`w-8 h-8 ${data?.status === 'devaluation' ? 'text-hoole-rose' : 'text-hoole-gold'}`} /></div>
-                      <div>
-                        <p className="text-[12px] font-black text-gray-500 uppercase tracking-widest leading-none mb-2 opacity-60">Dólar Binance</p>
-                        <h3 className={`text-4xl font-black tracking-tight transition-colors ${data?.status === 'devaluation' ? 'text-hoole-rose' : 'text-white'}`}>{data?.precio_paralelo_usdt}</h3>
+                  <div className="grid grid-cols-1 gap-6">
+                    <div className={`glass rounded-[3rem] p-8 flex items-center justify-between border-l-8 transition-all duration-700 ${data?.status === 'devaluation' ? 'border-hoole-rose shadow-[0_0_50px_rgba(244,63,94,0.4)]' : 'border-hoole-gold'}`}>
+                      <div className="flex items-center gap-6">
+                        <div className={`w-16 h-16 rounded-[1.5rem] flex items-center justify-center transition-colors duration-700 ${data?.status === 'devaluation' ? 'bg-hoole-rose/15' : 'bg-hoole-gold/20'}`}><Wallet className={`w-8 h-8 ${data?.status === 'devaluation' ? 'text-hoole-rose' : 'text-hoole-gold'}`} /></div>
+                        <div>
+                          <p className="text-[12px] font-black text-gray-500 uppercase tracking-widest leading-none mb-2 opacity-60">{shownInfo.parallelLabel}</p>
+                          <h3 className={`text-4xl font-black tracking-tight transition-colors ${data?.status === 'devaluation' ? 'text-hoole-rose' : 'text-white'}`}>{formatAmount(data.usdt, locale)}</h3>
+                        </div>
                       </div>
                     </div>
-                  </div>
-                  <div className={`glass rounded-[3rem] p-8 flex items-center justify-between border-l-8 transition-all duration-700 ${data?.status === 'appreciation' ? 'border-hoole-emerald shadow-[0_0_50px_rgba(16,185,129,0.4)]' : 'border-gray-800'}`}>
-                    <div className="flex items-center gap-6">
-                      <div className={`w-16 h-16 rounded-[1.5rem] flex items-center justify-center transition-colors duration-700 ${data?.status === 'appreciation' ? 'bg-hoole-emerald/15' : 'bg-white/5'}`}><Landmark className={`w-8 h-8 ${data?.status === 'appreciation' ? 'text-hoole-emerald' : 'text-gray-500'}`} /></div>
-                      <div>
-                        <p className="text-[12px] font-black text-gray-500 uppercase tracking-widest leading-none mb-2 opacity-60">Oficial BCV</p>
-                        <h3 className={`text-4xl font-black tracking-tight transition-colors ${data?.status === 'appreciation' ? 'text-hoole-emerald' : 'text-gray-300'}`}>{data?.precio_pivote_bcv}</h3>
+                    <div className={`glass rounded-[3rem] p-8 flex items-center justify-between border-l-8 transition-all duration-700 ${data?.status === 'appreciation' ? 'border-hoole-emerald shadow-[0_0_50px_rgba(16,185,129,0.4)]' : 'border-gray-800'}`}>
+                      <div className="flex items-center gap-6">
+                        <div className={`w-16 h-16 rounded-[1.5rem] flex items-center justify-center transition-colors duration-700 ${data?.status === 'appreciation' ? 'bg-hoole-emerald/15' : 'bg-white/5'}`}><Landmark className={`w-8 h-8 ${data?.status === 'appreciation' ? 'text-hoole-emerald' : 'text-gray-500'}`} /></div>
+                        <div>
+                          <p className="text-[12px] font-black text-gray-500 uppercase tracking-widest leading-none mb-2 opacity-60">{shownInfo.officialLabel}</p>
+                          <h3 className={`text-4xl font-black tracking-tight transition-colors ${data?.status === 'appreciation' ? 'text-hoole-emerald' : 'text-gray-300'}`}>{formatAmount(data.bcv, locale)}</h3>
+                        </div>
                       </div>
                     </div>
                   </div>
-                </div>
 
-                <div className="flex flex-col gap-8 px-2 text-center">
-                  <div className="flex justify-between items-center text-[10px] text-gray-500 font-extrabold uppercase tracking-[0.4em] opacity-60">
-                    <div className="flex items-center gap-3"><div className="w-2 h-2 rounded-full bg-hoole-gold animate-pulse" />ACTIVO</div>
-                    <div>{data?.timestamp}</div>
+                  <div className="flex flex-col gap-8 px-2 text-center">
+                    <div className="flex justify-between items-center text-[10px] text-gray-500 font-extrabold uppercase tracking-[0.4em] opacity-60">
+                      <div className="flex items-center gap-3"><div className={`w-2 h-2 rounded-full ${connectionTheme.dot}`} />{connectionTheme.label}</div>
+                      {/* Without a usable source time, the clock shown is when the reading arrived here */}
+                      <div>{data.timestampSource === 'client' ? t('live.receivedAt', { time: formatTime(data.timestamp, locale) }) : formatTime(data.timestamp, locale)}</div>
+                    </div>
+                    {isStale && (
+                      <div className="flex items-center justify-center gap-3 text-[10px] text-hoole-rose font-black tracking-widest uppercase">
+                        <WifiOff className="w-4 h-4" />{staleText}
+                      </div>
+                    )}
+                    <div className="flex justify-between items-center text-[10px] text-gray-500 font-extrabold uppercase tracking-[0.3em] opacity-60">
+                      <div className="flex items-center gap-3"><Server className="w-3 h-3" />{translateText(t, data.source.label)}</div>
+                      {data.source.failed > 0 && <div className="text-hoole-rose">{t('live.noResponse', { count: data.source.failed })}</div>}
+                    </div>
+                    {data.source.disagree && (
+                      <div className="flex items-start gap-3 text-left text-[10px] text-hoole-rose font-black tracking-widest uppercase">
+                        <AlertTriangle className="w-4 h-4 shrink-0" />
+                        <span>{t('live.disagree', {
+                          spread: formatPercent(data.source.spreadPct, locale),
+                          quotes: data.source.quotes.map((q) => `${q.name} ${formatAmount(q.usdt, locale)}`).join(' · '),
+                        })}</span>
+                      </div>
+                    )}
+                    {data.warnings.length > 0 && (
+                      <div className="flex items-start gap-3 text-left text-[10px] text-hoole-rose font-black tracking-widest uppercase">
+                        <AlertTriangle className="w-4 h-4 shrink-0" />
+                        <span>{t('live.inconsistent', { warnings: data.warnings.map((w) => `${w.field} ${t(`issue.${w.code}`)}`).join(' · ') })}</span>
+                      </div>
+                    )}
+                    {!isDemo && <HealthPanel health={health} stale={isStale} expanded={showHealth} onToggle={() => setShowHealth((v) => !v)} />}
+                    <ExportBar data={data} rows={session} pair={shownInfo} />
+                    <p className="text-[11px] font-black tracking-[0.6em] text-white uppercase italic opacity-20 py-10 border-t border-white/10">{t('live.credits')}</p>
                   </div>
-                  <p className="text-[11px] font-black tracking-[0.6em] text-white uppercase italic opacity-20 py-10 border-t border-white/10">Diseñado por Jairokov</p>
-                </div>
-              </motion.div>
-            )}
-          </AnimatePresence>
-        </main>
-
-        <footer className="fixed bottom-6 left-6 right-6 z-40 max-w-md mx-auto">
-          <div className="glass rounded-[3rem] p-7 flex justify-around items-center border border-white/10 shadow-3xl backdrop-blur-3xl">
-            <Activity className="w-8 h-8 text-hoole-gold" />
-            <Landmark className="w-8 h-8 text-white/10" />
-            <Wallet className="w-8 h-8 text-white/10" />
-          </div>
-        </footer>
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </main>
+
+          <footer className="fixed bottom-6 left-6 right-6 z-40 max-w-md mx-auto">
+            <div className="glass rounded-[3rem] p-7 flex justify-around items-center border border-white/10 shadow-3xl backdrop-blur-3xl">
+              <button onClick={() => setView('live')} aria-label={t('nav.live')}>
+                <Activity className={`w-8 h-8 transition-colors ${view === 'live' ? 'text-hoole-gold' : 'text-white/10'}`} />
+              </button>
+              <button onClick={() => setView('pairs')} aria-label={t('nav.pairs')}>
+                <LayoutList className={`w-8 h-8 transition-colors ${view === 'pairs' ? 'text-hoole-gold' : 'text-white/10'}`} />
+              </button>
+              <button onClick={() => openHistory('bcv')} aria-label={t('nav.historyBcv')}>
+                <Landmark className={`w-8 h-8 transition-colors ${view === 'history' && historyMetric === 'bcv' ? 'text-hoole-gold' : 'text-white/10'}`} />
+              </button>
+              <button onClick={() => openHistory('usdt')} aria-label={t('nav.historyUsdt')}>
+                <Wallet className={`w-8 h-8 transition-colors ${view === 'history' && historyMetric === 'usdt' ? 'text-hoole-gold' : 'text-white/10'}`} />
+              </button>
+              <button onClick={() => setView('calculator')} aria-label={t('nav.calculator')}>
+                <Calculator className={`w-8 h-8 transition-colors ${view === 'calculator' ? 'text-hoole-gold' : 'text-white/10'}`} />
+              </button>
+            </div>
+          </footer>
+        </div>
       </div>
-    </div>
+    </I18nContext.Provider>
   );
 };
 
@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { Bookmark, Trash2, Clock } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { convertAmount, parseAmountInput, createSavedAmount, loadSavedAmounts, saveSavedAmounts } from '../lib/convert';
+import type { CalculatorCurrency, SavedAmount } from '../lib/convert';
+import { amountFromDecimal } from '../lib/amount';
+import { formatAmount, formatNumber, formatPercent, formatTime } from '../lib/format';
+import { translateText } from '../lib/i18n';
+import { useI18n } from '../hooks/useI18n';
+import type { MarketData } from '../types';
+
+interface CalculatorViewProps {
+  data: MarketData | null;
+  isStale: boolean;
+}
+
+const CURRENCIES: CalculatorCurrency[] = ['USD', 'USDT', 'VES'];
+
+const inputClass = 'w-full bg-black/50 border-2 border-white/10 rounded-2xl px-5 py-4 text-3xl font-black tracking-tight text-white focus:border-hoole-gold outline-none transition-colors';
+const labelClass = 'text-[10px] text-gray-500 font-black tracking-widest uppercase';
+
+const CalculatorView: React.FC<CalculatorViewProps> = ({ data, isStale }) => {
+  const { t, locale } = useI18n();
+  const [raw, setRaw] = useState('100');
+  const [currency, setCurrency] = useState<CalculatorCurrency>('USD');
+  const [saved, setSaved] = useState<SavedAmount[]>(loadSavedAmounts);
+
+  useEffect(() => {
+    saveSavedAmounts(saved);
+  }, [saved]);
+
+  const input = parseAmountInput(raw, currency, locale);
+  // Recomputed on every render, so each new reading updates the figures
+  const conversion = input && data ? convertAmount(input, data) : null;
+  const isSaved = !!input && saved.some((s) => s.currency === input.currency && amountFromDecimal(s.value, s.currency)?.units === input.units);
+
+  const addSaved = () => {
+    if (input && !isSaved) setSaved((prev) => [...prev, createSavedAmount({ ...input, currency })]);
+  };
+
+  const loadSaved = (item: SavedAmount) => {
+    setCurrency(item.currency);
+    setRaw(formatNumber(Number(item.value), locale));
+  };
+
+  return (
+    <motion.div key="calculator" initial={{ opacity: 0, y: 12 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0 }} className="space-y-6">
+      <h2 className="text-2xl font-black tracking-tighter">{t('calculator.title')}</h2>
+
+      <div className="glass rounded-[2rem] p-5 space-y-4">
+        <div className="flex gap-2">
+          {CURRENCIES.map((c) => (
+            <button key={c} onClick={() => setCurrency(c)}
+              className={`flex-1 py-3 rounded-2xl text-[11px] font-black tracking-widest uppercase border-2 transition-all ${currency === c ? 'bg-hoole-gold text-black border-hoole-gold' : 'bg-white/5 border-white/5 text-gray-500'}`}>
+              {t(`currency.${c}`)}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-2">
+          <input type="text" inputMode="decimal" value={raw} onChange={(e) => setRaw(e.target.value)} aria-label={t('calculator.amount')} className={inputClass} />
+          <button onClick={addSaved} disabled={!input || isSaved}
+            className={`p-4 rounded-2xl border-2 transition-all disabled:opacity-40 ${isSaved ? 'bg-hoole-gold/20 border-hoole-gold/40 text-hoole-gold' : 'bg-white/5 border-white/5 text-gray-500'}`} aria-label={t('calculator.save')}>
+            <Bookmark className="w-6 h-6" />
+          </button>
+        </div>
+        {raw.trim() && !input && <span className="text-[10px] text-hoole-rose font-black tracking-widest uppercase block">{t('calculator.invalid')}</span>}
+      </div>
+
+      {!data ? (
+        <p className="text-[10px] text-gray-500 font-black tracking-widest uppercase text-center">{t('calculator.waiting')}</p>
+      ) : conversion && (
+        <div className="glass rounded-[2rem] p-5 space-y-4">
+          <div>
+            <p className={labelClass}>{t('pair.primary.official')} · {formatAmount(data.bcv, locale)}</p>
+            <h3 className="text-3xl font-black tracking-tight text-gray-300">{formatAmount(conversion.official, locale)}</h3>
+          </div>
+          <div>
+            <p className={labelClass}>{t('calculator.parallel')} · {formatAmount(data.usdt, locale)}</p>
+            <h3 className="text-3xl font-black tracking-tight text-white">{formatAmount(conversion.parallel, locale)}</h3>
+          </div>
+          <div className={`pt-4 border-t border-white/10 ${conversion.difference.units >= 0 ? 'text-hoole-emerald' : 'text-hoole-rose'}`}>
+            <p className={labelClass}>{conversion.difference.units >= 0 ? t('calculator.gain') : t('calculator.loss')}</p>
+            <h3 className="text-2xl font-black tracking-tight">
+              {formatAmount({ ...conversion.difference, units: Math.abs(conversion.difference.units) }, locale)}
+              <span className="text-sm ml-3 opacity-70">{formatPercent(conversion.differencePct, locale, true)}</span>
+            </h3>
+          </div>
+          <div className={`flex items-center gap-2 text-[10px] font-black tracking-widest uppercase ${isStale ? 'text-hoole-rose' : 'text-gray-500'}`}>
+            <Clock className="w-3 h-3" />{t(data.timestampSource === 'client' ? 'calculator.receivedAt' : 'calculator.readingAt', { time: formatTime(data.timestamp, locale) })} · {translateText(t, data.source.label)}{isStale ? ` · ${t('calculator.stale')}` : ''}
+          </div>
+        </div>
+      )}
+
+      {saved.length > 0 && (
+        <div className="space-y-2">
+          <p className={labelClass}>{t('calculator.saved')}</p>
+          {saved.map((item) => {
+            const amount = amountFromDecimal(item.value, item.currency);
+            const result = amount && data ? convertAmount(amount, data) : null;
+            return (
+              <div key={item.id} className="glass rounded-2xl p-3 flex items-center gap-2">
+                <button onClick={() => loadSaved(item)} className="flex-1 flex justify-between items-center text-left">
+                  <span className="text-sm font-black text-white">{amount && formatAmount(amount, locale)}</span>
+                  {result && (
+                    <span className="text-[10px] text-gray-500 font-black tracking-widest uppercase text-right">
+                      {formatAmount(result.parallel, locale)} · BCV {formatAmount(result.official, locale)}
+                    </span>
+                  )}
+                </button>
+                <button onClick={() => setSaved((prev) => prev.filter((s) => s.id !== item.id))} className="p-2 text-gray-600 hover:text-hoole-rose transition-colors" aria-label={t('calculator.remove')}>
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </motion.div>
+  );
+};
+
+export default CalculatorView;
@@ -0,0 +1,124 @@
+import React from 'react';
+import { Plus, Trash2, Send } from 'lucide-react';
+import { createChannel, CHANNEL_KIND_LABELS, TEMPLATE_FIELDS } from '../lib/dispatch';
+import type { ChannelConfig, ChannelKind, DeliveryEntry, DeliveryStatus } from '../lib/dispatch';
+import { validateChannel } from '../lib/settings';
+import { formatDateTime } from '../lib/format';
+import { translateText } from '../lib/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface ChannelsEditorProps {
+  channels: ChannelConfig[];
+  log: DeliveryEntry[];
+  onChange: (channels: ChannelConfig[]) => void;
+  onTest?: (channel: ChannelConfig) => void; // missing until there is a reading to fill the template
+}
+
+const inputClass = 'w-full bg-black/50 border-2 border-white/10 rounded-xl px-3 py-2 text-xs font-bold text-white focus:border-hoole-gold outline-none transition-colors';
+const labelClass = 'text-[9px] text-gray-500 font-black tracking-widest uppercase mb-1 block';
+const errorClass = 'text-[9px] text-hoole-rose font-black tracking-widest uppercase mt-1 block';
+
+const DELIVERY_COLORS: Record<DeliveryStatus, string> = {
+  sent: 'text-hoole-emerald',
+  failed: 'text-hoole-rose',
+  limited: 'text-hoole-gold',
+  skipped: 'text-gray-500',
+};
+
+const ChannelsEditor: React.FC<ChannelsEditorProps> = ({ channels, log, onChange, onTest }) => {
+  const { t, locale } = useI18n();
+  const update = (id: string, patch: Partial<ChannelConfig>) =>
+    onChange(channels.map((c) => (c.id === id ? { ...c, ...patch } : c)));
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-black tracking-tighter">{t('channels.title')}</h2>
+
+      {channels.map((channel) => {
+        const error = validateChannel(channel);
+        return (
+          <div key={channel.id} className={`glass rounded-[2rem] p-5 space-y-4 border-l-8 border-gray-800 ${channel.enabled ? '' : 'opacity-40'}`}>
+            <div className="flex items-center gap-2">
+              <input type="text" value={channel.name} onChange={(e) => update(channel.id, { name: e.target.value })} className={inputClass} />
+              <button onClick={() => onTest?.(channel)} disabled={!onTest || !!error} className="p-2 text-gray-600 hover:text-hoole-gold transition-colors disabled:opacity-40" aria-label={t('channels.test')}>
+                <Send className="w-4 h-4" />
+              </button>
+              <button onClick={() => update(channel.id, { enabled: !channel.enabled })}
+                className={`px-3 py-2 rounded-xl text-[10px] font-black tracking-widest uppercase border-2 ${channel.enabled ? 'bg-hoole-gold/20 border-hoole-gold/40 text-hoole-gold' : 'bg-white/5 border-white/5 text-gray-500'}`}>
+                {channel.enabled ? 'ON' : 'OFF'}
+              </button>
+              <button onClick={() => onChange(channels.filter((c) => c.id !== channel.id))} className="p-2 text-gray-600 hover:text-hoole-rose transition-colors" aria-label={t('channels.remove')}>
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div>
+              <label className={labelClass}>{CHANNEL_KIND_LABELS[channel.kind]} · {t(`channels.url.${channel.kind}`)}</label>
+              <input type="text" value={channel.url} onChange={(e) => update(channel.id, { url: e.target.value })} placeholder="https://..." className={inputClass} />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>{channel.kind === 'telegram' ? t('channels.botToken') : t('channels.token')}</label>
+                <input type="password" value={channel.token} onChange={(e) => update(channel.id, { token: e.target.value })} autoComplete="off" className={inputClass} />
+              </div>
+              {channel.kind !== 'webhook' ? (
+                <div>
+                  <label className={labelClass}>{t(`channels.target.${channel.kind}`)}</label>
+                  <input type="text" value={channel.target} onChange={(e) => update(channel.id, { target: e.target.value })} className={inputClass} />
+                </div>
+              ) : <div />}
+              <div>
+                <label className={labelClass}>{t('channels.minInterval')}</label>
+                <input type="number" step="any" min={0} value={channel.minIntervalMinutes}
+                  onChange={(e) => {
+                    const val = parseFloat(e.target.value);
+                    if (Number.isFinite(val) && val >= 0) update(channel.id, { minIntervalMinutes: val });
+                  }}
+                  className={inputClass} />
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>{t('channels.template')} · {TEMPLATE_FIELDS.map((f) => `{${f}}`).join(' ')}</label>
+              <textarea rows={4} value={channel.template} placeholder={t('alert.template')} onChange={(e) => update(channel.id, { template: e.target.value })} className={`${inputClass} font-mono resize-none`} />
+            </div>
+            {channel.enabled && error && <span className={errorClass}>{translateText(t, error)}</span>}
+          </div>
+        );
+      })}
+
+      <div className="grid grid-cols-3 gap-2">
+        {(Object.keys(CHANNEL_KIND_LABELS) as ChannelKind[]).map((kind) => (
+          <button key={kind} onClick={() => onChange([...channels, createChannel(kind)])}
+            className="flex flex-col items-center justify-center gap-1 bg-white/5 border-2 border-white/10 text-white font-black py-3 rounded-2xl active:scale-95 transition-all text-[10px] tracking-widest uppercase">
+            <Plus className="w-4 h-4" />{CHANNEL_KIND_LABELS[kind]}
+          </button>
+        ))}
+      </div>
+      {channels.some((c) => c.token) && (
+        <p className="text-[10px] text-gray-600 font-black tracking-widest uppercase text-center">{t('channels.tokensExported')}</p>
+      )}
+
+      {log.length > 0 && (
+        <div className="glass rounded-[2rem] p-5 space-y-3">
+          <p className={labelClass}>{t('channels.log')}</p>
+          {log.slice(0, 15).map((entry) => (
+            <div key={entry.id} className="flex justify-between items-start gap-3 text-[10px] font-black tracking-widest uppercase">
+              <div className="min-w-0">
+                <p className="text-white truncate">{entry.channelName}</p>
+                <p className="text-gray-600">{formatDateTime(entry.at, locale)}{entry.attempts > 1 ? ` · ${t('channels.attempts', { count: entry.attempts })}` : ''}</p>
+              </div>
+              <div className={`text-right shrink-0 ${DELIVERY_COLORS[entry.status]}`}>
+                {t(`delivery.${entry.status}`)}
+                {entry.error && <p className="text-gray-600 normal-case tracking-normal">{translateText(t, entry.error)}</p>}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChannelsEditor;
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { FileSpreadsheet, Braces, Share2 } from 'lucide-react';
+import { sessionToCsv, sessionToJson, exportFilename, downloadBlob, renderShareCard, shareOrDownload } from '../lib/export';
+import type { SessionRow } from '../lib/export';
+import { formatAmount, formatPercent } from '../lib/format';
+import type { PairInfo } from '../lib/pairs';
+import { errorText, translateText } from '../lib/i18n';
+import { useI18n } from '../hooks/useI18n';
+import type { MarketData } from '../types';
+
+interface ExportBarProps {
+  data: MarketData;
+  rows: SessionRow[];
+  pair: PairInfo;
+}
+
+const buttonClass = 'flex-1 flex items-center justify-center gap-2 bg-white/5 border-2 border-white/10 text-white font-black py-3 rounded-2xl active:scale-95 transition-all text-[11px] tracking-widest uppercase disabled:opacity-40';
+
+const ExportBar: React.FC<ExportBarProps> = ({ data, rows, pair }) => {
+  const { t, locale } = useI18n();
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const exportRows = (format: 'csv' | 'json') => {
+    const blob = format === 'csv'
+      ? new Blob([sessionToCsv(rows, t)], { type: 'text/csv' })
+      : new Blob([sessionToJson(rows, t)], { type: 'application/json' });
+    downloadBlob(blob, exportFilename(format));
+  };
+
+  const share = async () => {
+    setBusy(true);
+    try {
+      const blob = await renderShareCard(data, pair.gaugeMax, locale, {
+        gap: t('live.gap'),
+        status: t(`status.${data.status}`),
+        official: pair.officialLabel,
+        parallel: pair.parallelLabel,
+        source: translateText(t, data.source.label),
+      });
+      const text = t('export.shareText', {
+        pair: pair.name,
+        gap: formatPercent(data.gapPct, locale),
+        parallel: `${pair.parallelLabel} ${formatAmount(data.usdt, locale)}`,
+        official: `${pair.officialLabel} ${formatAmount(data.bcv, locale)}`,
+      });
+      const result = await shareOrDownload(blob, exportFilename('png', data.timestamp), text);
+      setMessage(result === 'downloaded' ? t('export.downloaded') : null);
+    } catch (err) {
+      console.error("Share error:", err);
+      const reason = errorText(err);
+      setMessage(reason ? translateText(t, reason) : t('export.shareFailed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <button onClick={() => exportRows('csv')} disabled={rows.length === 0} className={buttonClass}>
+          <FileSpreadsheet className="w-4 h-4" />CSV
+        </button>
+        <button onClick={() => exportRows('json')} disabled={rows.length === 0} className={buttonClass}>
+          <Braces className="w-4 h-4" />JSON
+        </button>
+        <button onClick={share} disabled={busy} className={buttonClass}>
+          <Share2 className="w-4 h-4" />{t('export.share')}
+        </button>
+      </div>
+      <p className="text-[9px] text-gray-600 font-black tracking-widest uppercase">
+        {message ?? t('export.sessionCount', { count: rows.length })}
+      </p>
+    </div>
+  );
+};
+
+export default ExportBar;
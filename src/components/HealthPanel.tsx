@@ -0,0 +1,88 @@
+import React from 'react';
+import { HeartPulse, ChevronDown, ChevronUp } from 'lucide-react';
+import type { FailureEntry, HealthState } from '../lib/quality';
+import { formatAmount, formatPercent, formatTime } from '../lib/format';
+import { useI18n } from '../hooks/useI18n';
+import { translateText } from '../lib/i18n';
+import type { Translate } from '../lib/i18n';
+import type { Locale } from '../lib/format';
+
+interface HealthPanelProps {
+  health: HealthState;
+  stale: boolean; // the reading on screen can't be trusted as current
+  expanded: boolean;
+  onToggle: () => void;
+}
+
+const FAILING_AFTER = 3; // consecutive failures before the source counts as down
+
+// Worded from the structured detail when there is one; unknown errors carry the browser's own message
+const failureMessage = (t: Translate, locale: Locale, f: FailureEntry) => {
+  if (f.issues?.length) return f.issues.map((i) => `${i.field} ${t(`issue.${i.code}`)}`).join(' · ');
+  if (f.outlier) return t('health.message.outlier', { metric: f.outlier.metric.toUpperCase(), change: formatPercent(f.outlier.changePct, locale, true) });
+  return translateText(t, f.text);
+};
+
+const HealthPanel: React.FC<HealthPanelProps> = ({ health, stale, expanded, onToggle }) => {
+  const { t, locale } = useI18n();
+  const { failures, consecutiveFailures, lastSuccessAt, nextPollAt, pending } = health;
+  const level = consecutiveFailures >= FAILING_AFTER
+    ? { label: t('health.failing'), color: 'text-hoole-rose', dot: 'bg-hoole-rose' }
+    : consecutiveFailures > 0 || pending || stale
+      ? { label: t('health.degraded'), color: 'text-hoole-gold', dot: 'bg-hoole-gold' }
+      : { label: t('health.ok'), color: 'text-hoole-emerald', dot: 'bg-hoole-emerald' };
+
+  const stat = (label: string, value: string) => (
+    <div>
+      <p className="text-[9px] text-gray-600 font-black tracking-widest uppercase">{label}</p>
+      <p className="text-xs text-white font-black">{value}</p>
+    </div>
+  );
+
+  return (
+    <div className="glass rounded-[2rem] p-5 text-left space-y-4">
+      <button onClick={onToggle} className="w-full flex justify-between items-center text-[10px] font-black tracking-widest uppercase">
+        <span className="flex items-center gap-3 text-gray-500"><HeartPulse className="w-4 h-4" />{t('health.title')}</span>
+        <span className={`flex items-center gap-2 ${level.color}`}>
+          <span className={`w-2 h-2 rounded-full ${level.dot}`} />{level.label}
+          {expanded ? <ChevronUp className="w-4 h-4 text-gray-600" /> : <ChevronDown className="w-4 h-4 text-gray-600" />}
+        </span>
+      </button>
+
+      {pending && (
+        <p className="text-[10px] text-hoole-gold font-black tracking-widest uppercase">
+          {t('health.pending', {
+            metric: pending.metric.toUpperCase(),
+            change: formatPercent(pending.changePct, locale, true),
+            value: formatAmount(pending.reading[pending.metric], locale),
+          })}
+        </p>
+      )}
+
+      {expanded && (
+        <>
+          <div className="grid grid-cols-3 gap-3">
+            {stat(t('health.consecutive'), String(consecutiveFailures))}
+            {stat(t('health.lastSuccess'), lastSuccessAt ? formatTime(lastSuccessAt, locale) : '--')}
+            {stat(t('health.nextPoll'), nextPollAt ? formatTime(nextPollAt, locale) : '--')}
+          </div>
+          {failures.length === 0 ? (
+            <p className="text-[10px] text-gray-600 font-black tracking-widest uppercase">{t('health.noFailures')}</p>
+          ) : (
+            <div className="space-y-2">
+              {failures.slice(0, 10).map((f, i) => (
+                <div key={`${f.at}-${i}`} className="flex gap-3 text-[10px] font-black tracking-widest uppercase">
+                  <span className="text-gray-600 shrink-0">{formatTime(f.at, locale)}</span>
+                  <span className="text-hoole-rose shrink-0">{t(`failure.${f.kind}`)}</span>
+                  <span className="text-gray-400 break-words min-w-0">{failureMessage(t, locale, f)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default HealthPanel;
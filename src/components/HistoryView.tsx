@@ -0,0 +1,148 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Activity, Landmark, Wallet } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { loadSamples, summarize, downsample, HISTORY_WINDOWS } from '../lib/history';
+import type { HistorySample, HistoryWindow, HistoryMetric } from '../lib/history';
+import { formatBs, formatPercent, formatTime, formatDateTime } from '../lib/format';
+import type { Locale } from '../lib/format';
+import { useI18n } from '../hooks/useI18n';
+
+interface HistoryViewProps {
+  metric: HistoryMetric;
+  onMetricChange: (metric: HistoryMetric) => void;
+  refreshKey?: string;
+}
+
+const CHART_W = 320;
+const CHART_H = 180;
+const MAX_POINTS = 240;
+
+const METRICS: { id: HistoryMetric; icon: React.ReactNode }[] = [
+  { id: 'gapPct', icon: <Activity className="w-4 h-4" /> },
+  { id: 'bcv', icon: <Landmark className="w-4 h-4" /> },
+  { id: 'usdt', icon: <Wallet className="w-4 h-4" /> },
+];
+
+const formatValue = (metric: HistoryMetric, val: number, locale: Locale) =>
+  metric === 'gapPct' ? formatPercent(val, locale) : formatBs(val, locale);
+
+const formatSampleTime = (t: number, range: HistoryWindow, locale: Locale) =>
+  range === '1h' || range === '24h' ? formatTime(t, locale) : formatDateTime(t, locale);
+
+const HistoryView: React.FC<HistoryViewProps> = ({ metric, onMetricChange, refreshKey }) => {
+  const { t, locale } = useI18n();
+  const [range, setRange] = useState<HistoryWindow>('24h');
+  const [samples, setSamples] = useState<HistorySample[]>([]);
+  const [error, setError] = useState(false);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSamples(range)
+      .then((rows) => {
+        if (cancelled) return;
+        setSamples(rows);
+        setError(false);
+      })
+      .catch((err) => {
+        console.error("History error:", err);
+        if (!cancelled) setError(true);
+      });
+    return () => { cancelled = true; };
+  }, [range, refreshKey]);
+
+  const points = useMemo(() => downsample(samples, MAX_POINTS), [samples]);
+  const stats = useMemo(() => summarize(samples, metric), [samples, metric]);
+
+  const chart = useMemo(() => {
+    if (!stats || points.length === 0) return null;
+    const span = stats.max - stats.min || 1;
+    const now = Date.now();
+    const start = now - HISTORY_WINDOWS[range];
+    const coords = points.map((s) => ({
+      x: ((s.t - start) / (now - start)) * CHART_W,
+      y: CHART_H - ((s[metric] - stats.min) / span) * (CHART_H - 20) - 10,
+    }));
+    const line = coords.map((c, i) => `${i === 0 ? 'M' : 'L'}${c.x.toFixed(1)},${c.y.toFixed(1)}`).join(' ');
+    const area = `${line} L${coords[coords.length - 1].x.toFixed(1)},${CHART_H} L${coords[0].x.toFixed(1)},${CHART_H} Z`;
+    return { coords, line, area };
+  }, [points, stats, metric, range]);
+
+  const handlePointer = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!chart) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * CHART_W;
+    let nearest = 0;
+    chart.coords.forEach((c, i) => {
+      if (Math.abs(c.x - x) < Math.abs(chart.coords[nearest].x - x)) nearest = i;
+    });
+    setHoverIndex(nearest);
+  };
+
+  const hovered = hoverIndex !== null ? points[hoverIndex] : null;
+
+  return (
+    <motion.div key="history" initial={{ opacity: 0, y: 12 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0 }} className="space-y-8">
+      <div className="flex gap-2">
+        {METRICS.map((m) => (
+          <button key={m.id} onClick={() => onMetricChange(m.id)}
+            className={`flex-1 flex items-center justify-center gap-2 py-3 rounded-2xl text-[11px] font-black tracking-widest uppercase border-2 transition-all ${metric === m.id ? 'bg-hoole-gold text-black border-hoole-gold' : 'bg-white/5 border-white/5 text-gray-500'}`}>
+            {m.icon}{t(`history.metric.${m.id}`)}
+          </button>
+        ))}
+      </div>
+
+      <div className="glass rounded-[2.5rem] p-6">
+        <div className="flex justify-between items-baseline mb-4">
+          <span className="text-[10px] text-gray-500 font-black tracking-widest uppercase opacity-60">
+            {hovered ? formatSampleTime(hovered.t, range, locale) : t('history.last')}
+          </span>
+          <span className="text-2xl font-black tracking-tight text-white">
+            {hovered ? formatValue(metric, hovered[metric], locale) : stats ? formatValue(metric, stats.last, locale) : '—'}
+          </span>
+        </div>
+
+        {chart ? (
+          <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} className="w-full h-44 touch-none"
+            onPointerMove={handlePointer} onPointerDown={handlePointer} onPointerLeave={() => setHoverIndex(null)}>
+            <path d={chart.area} className="fill-hoole-gold/10" />
+            <motion.path d={chart.line} fill="none" stroke="currentColor" strokeWidth="2" strokeLinejoin="round"
+              className="text-hoole-gold" initial={{ pathLength: 0 }} animate={{ pathLength: 1 }} transition={{ duration: 0.8, ease: "circOut" }} />
+            {hoverIndex !== null && chart.coords[hoverIndex] && (
+              <>
+                <line x1={chart.coords[hoverIndex].x} x2={chart.coords[hoverIndex].x} y1="0" y2={CHART_H} className="stroke-white/20" strokeDasharray="4 4" />
+                <circle cx={chart.coords[hoverIndex].x} cy={chart.coords[hoverIndex].y} r="5" className="fill-hoole-gold" />
+              </>
+            )}
+          </svg>
+        ) : (
+          <div className="h-44 flex items-center justify-center text-[10px] text-gray-550 font-black tracking-widest text-center uppercase">
+            {error ? t('history.unavailable') : t('history.empty')}
+          </div>
+        )}
+
+        <div className="flex gap-2 mt-4">
+          {(Object.keys(HISTORY_WINDOWS) as HistoryWindow[]).map((r) => (
+            <button key={r} onClick={() => setRange(r)}
+              className={`flex-1 py-2 rounded-xl text-[11px] font-black tracking-widest uppercase transition-colors ${range === r ? 'bg-white/10 text-hoole-gold' : 'text-gray-600'}`}>
+              {r}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {(['min', 'avg', 'max'] as const).map((k) => (
+          <div key={k} className="glass rounded-[1.5rem] p-4 text-center">
+            <p className="text-[10px] text-gray-500 font-black tracking-widest uppercase opacity-60 mb-2">{t(`history.${k}`)}</p>
+            <p className="text-sm font-black text-white">{stats ? formatValue(metric, stats[k], locale) : '—'}</p>
+          </div>
+        ))}
+      </div>
+
+      <p className="text-[10px] text-gray-600 font-black tracking-widest uppercase text-center">{t('history.count', { count: samples.length })}</p>
+    </motion.div>
+  );
+};
+
+export default HistoryView;
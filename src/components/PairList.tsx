@@ -0,0 +1,104 @@
+import React, { useSyncExternalStore } from 'react';
+import { ChevronRight } from 'lucide-react';
+import { motion } from 'framer-motion';
+import type { Monitor } from '../lib/monitor';
+import type { PairInfo } from '../lib/pairs';
+import { formatAmount, formatPercent } from '../lib/format';
+import { translateText } from '../lib/i18n';
+import type { Text } from '../lib/i18n';
+import { useI18n } from '../hooks/useI18n';
+import type { MarketStatus } from '../types';
+
+interface PairListProps {
+  pairs: { info: PairInfo; monitor: Monitor }[];
+  invalid: { info: PairInfo; error: Text }[]; // enabled but not polled until their settings are fixed
+  selectedId: string;
+  onSelect: (id: string) => void;
+}
+
+const STATUS_COLORS: Record<MarketStatus, { text: string; dot: string }> = {
+  stable: { text: 'text-hoole-gold', dot: 'bg-hoole-gold' },
+  devaluation: { text: 'text-hoole-rose', dot: 'bg-hoole-rose animate-pulse' },
+  appreciation: { text: 'text-hoole-emerald', dot: 'bg-hoole-emerald animate-pulse' },
+};
+
+const MiniGauge: React.FC<{ gap: number; max: number; color: string }> = ({ gap, max, color }) => {
+  const r = 22;
+  const fill = Math.min(Math.max(gap, 0) / max, 1);
+  return (
+    <svg className="w-14 h-14 shrink-0 transform -rotate-90" viewBox="0 0 56 56">
+      <circle cx="28" cy="28" r={r} stroke="currentColor" strokeWidth="2" fill="transparent" className="text-white/5" />
+      <circle cx="28" cy="28" r={r} stroke="currentColor" strokeWidth="6" fill="transparent" strokeLinecap="round"
+        strokeDasharray={2 * Math.PI * r} strokeDashoffset={2 * Math.PI * r * (1 - fill)}
+        className={`${color} transition-all duration-1000`} />
+    </svg>
+  );
+};
+
+const PairRow: React.FC<{ info: PairInfo; monitor: Monitor; selected: boolean; onSelect: () => void }> = ({ info, monitor, selected, onSelect }) => {
+  const { t, locale } = useI18n();
+  const { data, error, health } = useSyncExternalStore(monitor.subscribe, monitor.getState);
+  const lastFailure = health.failures[0];
+  const colors = STATUS_COLORS[data?.status ?? 'stable'];
+
+  return (
+    <button onClick={onSelect}
+      className={`w-full glass rounded-[2rem] p-4 flex items-center gap-4 text-left border-l-8 transition-all active:scale-[0.98] ${selected ? 'border-hoole-gold' : 'border-gray-800'}`}>
+      <MiniGauge gap={data?.gapPct ?? 0} max={info.gaugeMax} color={data ? colors.text : 'text-white/10'} />
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <div className={`w-2 h-2 rounded-full shrink-0 ${data ? colors.dot : 'bg-gray-600'}`} />
+          <p className="text-sm font-black text-white truncate">{info.name}</p>
+        </div>
+        {data ? (
+          <p className="text-[10px] text-gray-500 font-black tracking-widest uppercase truncate mt-1">
+            {info.parallelLabel} {formatAmount(data.usdt, locale)} · {info.officialLabel} {formatAmount(data.bcv, locale)} {info.currency}/{info.base}
+          </p>
+        ) : (
+          <p className={`text-[10px] font-black tracking-widest uppercase truncate mt-1 ${error ? 'text-hoole-rose' : 'text-gray-600'}`}>
+            {error ? t(`failure.${lastFailure?.kind ?? 'other'}`) : t('pairList.waiting')}
+          </p>
+        )}
+      </div>
+      <span className={`text-xl font-black tracking-tighter ${data ? colors.text : 'text-gray-600'}`}>{data ? formatPercent(data.gapPct, locale) : '--'}</span>
+      <ChevronRight className="w-4 h-4 text-gray-600 shrink-0" />
+    </button>
+  );
+};
+
+const InvalidPairRow: React.FC<{ info: PairInfo; error: Text }> = ({ info, error }) => {
+  const { t } = useI18n();
+
+  return (
+    <div className="w-full glass rounded-[2rem] p-4 flex items-center gap-4 text-left border-l-8 border-gray-800 opacity-60">
+      <MiniGauge gap={0} max={info.gaugeMax} color="text-white/10" />
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <div className="w-2 h-2 rounded-full shrink-0 bg-hoole-rose" />
+          <p className="text-sm font-black text-white truncate">{info.name}</p>
+        </div>
+        <p className="text-[10px] text-hoole-rose font-black tracking-widest uppercase truncate mt-1">{translateText(t, error)}</p>
+      </div>
+      <span className="text-xl font-black tracking-tighter text-gray-600">--</span>
+    </div>
+  );
+};
+
+const PairList: React.FC<PairListProps> = ({ pairs, invalid, selectedId, onSelect }) => {
+  const { t } = useI18n();
+
+  return (
+    <motion.div key="pairs" initial={{ opacity: 0, y: 12 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0 }} className="space-y-4">
+      <h2 className="text-2xl font-black tracking-tighter">{t('pairList.title')}</h2>
+      {pairs.map(({ info, monitor }) => (
+        <PairRow key={info.id} info={info} monitor={monitor} selected={info.id === selectedId} onSelect={() => onSelect(info.id)} />
+      ))}
+      {invalid.map(({ info, error }) => <InvalidPairRow key={info.id} info={info} error={error} />)}
+      {pairs.length + invalid.length < 2 && (
+        <p className="text-[10px] text-gray-600 font-black tracking-widest uppercase text-center">{t('pairList.empty')}</p>
+      )}
+    </motion.div>
+  );
+};
+
+export default PairList;
@@ -0,0 +1,125 @@
+import React from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { createPair, PAIR_BASES, PAIR_CURRENCIES } from '../lib/pairs';
+import type { GapPair, PairBase, PairCurrency, PriceSource } from '../lib/pairs';
+import { validatePair } from '../lib/settings';
+import { formatNumber } from '../lib/format';
+import type { Locale } from '../lib/format';
+import { translateText } from '../lib/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface PairsEditorProps {
+  pairs: GapPair[];
+  onChange: (pairs: GapPair[]) => void;
+}
+
+const inputClass = 'w-full bg-black/50 border-2 border-white/10 rounded-xl px-3 py-2 text-xs font-bold text-white focus:border-hoole-gold outline-none transition-colors';
+const labelClass = 'text-[9px] text-gray-500 font-black tracking-widest uppercase mb-1 block';
+const errorClass = 'text-[9px] text-hoole-rose font-black tracking-widest uppercase mt-1 block';
+
+const NUMBER_FORMATS: Locale[] = ['en-US', 'es-VE'];
+
+const PairsEditor: React.FC<PairsEditorProps> = ({ pairs, onChange }) => {
+  const { t } = useI18n();
+
+  const update = (id: string, patch: Partial<GapPair>) =>
+    onChange(pairs.map((p) => (p.id === id ? { ...p, ...patch } : p)));
+
+  const sourceFields = (pair: GapPair, key: 'official' | 'parallel', label: string) => {
+    const setSource = (patch: Partial<PriceSource>) => update(pair.id, { [key]: { ...pair[key], ...patch } });
+    return (
+      <div className="grid grid-cols-4 gap-3">
+        <div className="col-span-2">
+          <label className={labelClass}>{label} · URL</label>
+          <input type="text" value={pair[key].url} onChange={(e) => setSource({ url: e.target.value })} placeholder="https://..." className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>{t('pairs.path')}</label>
+          <input type="text" value={pair[key].path} onChange={(e) => setSource({ path: e.target.value })} placeholder="venta" className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>{t('pairs.numberFormat')}</label>
+          <select value={pair[key].locale} onChange={(e) => setSource({ locale: e.target.value as Locale })} className={inputClass}>
+            {NUMBER_FORMATS.map((l) => <option key={l} value={l}>{formatNumber(1234.56, l)}</option>)}
+          </select>
+        </div>
+      </div>
+    );
+  };
+
+  const numberField = (pair: GapPair, key: 'high' | 'low', label: string) => (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <input type="number" step="any" value={pair[key]}
+        onChange={(e) => {
+          const val = parseFloat(e.target.value);
+          if (Number.isFinite(val)) update(pair.id, { [key]: val });
+        }}
+        className={inputClass} />
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <h2 className="text-2xl font-black tracking-tighter">{t('pairs.title')}</h2>
+
+      {pairs.map((pair) => {
+        const error = validatePair(pair);
+        return (
+          <div key={pair.id} className={`glass rounded-[2rem] p-5 space-y-4 border-l-8 border-gray-800 ${pair.enabled ? '' : 'opacity-40'}`}>
+            <div className="flex items-center gap-2">
+              <input type="text" value={pair.name} onChange={(e) => update(pair.id, { name: e.target.value })} className={inputClass} />
+              <button onClick={() => update(pair.id, { enabled: !pair.enabled })}
+                className={`px-3 py-2 rounded-xl text-[10px] font-black tracking-widest uppercase border-2 ${pair.enabled ? 'bg-hoole-gold/20 border-hoole-gold/40 text-hoole-gold' : 'bg-white/5 border-white/5 text-gray-500'}`}>
+                {pair.enabled ? 'ON' : 'OFF'}
+              </button>
+              <button onClick={() => onChange(pairs.filter((p) => p.id !== pair.id))} className="p-2 text-gray-600 hover:text-hoole-rose transition-colors" aria-label={t('pairs.remove')}>
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>{t('pairs.base')}</label>
+                <select value={pair.base} onChange={(e) => update(pair.id, { base: e.target.value as PairBase })} className={inputClass}>
+                  {PAIR_BASES.map((c) => <option key={c} value={c}>{c}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>{t('pairs.currency')}</label>
+                <select value={pair.currency} onChange={(e) => update(pair.id, { currency: e.target.value as PairCurrency })} className={inputClass}>
+                  {PAIR_CURRENCIES.map((c) => <option key={c} value={c}>{c}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>{t('pairs.officialLabel')}</label>
+                <input type="text" value={pair.officialLabel} onChange={(e) => update(pair.id, { officialLabel: e.target.value })} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>{t('pairs.parallelLabel')}</label>
+                <input type="text" value={pair.parallelLabel} onChange={(e) => update(pair.id, { parallelLabel: e.target.value })} className={inputClass} />
+              </div>
+            </div>
+
+            {sourceFields(pair, 'official', pair.officialLabel || t('pairs.officialLabel'))}
+            {sourceFields(pair, 'parallel', pair.parallelLabel || t('pairs.parallelLabel'))}
+
+            <div className="grid grid-cols-2 gap-3">
+              {numberField(pair, 'high', t('pairs.high'))}
+              {numberField(pair, 'low', t('pairs.low'))}
+            </div>
+            {pair.enabled && error && <span className={errorClass}>{translateText(t, error)}</span>}
+          </div>
+        );
+      })}
+
+      <button onClick={() => onChange([...pairs, createPair()])}
+        className="w-full flex items-center justify-center gap-2 bg-white/5 border-2 border-white/10 text-white font-black py-4 rounded-2xl active:scale-95 transition-all text-sm tracking-tighter uppercase">
+        <Plus className="w-5 h-5" />{t('pairs.add')}
+      </button>
+      <p className="text-[10px] text-gray-600 font-black tracking-widest uppercase text-center">{t('pairs.note')}</p>
+    </div>
+  );
+};
+
+export default PairsEditor;
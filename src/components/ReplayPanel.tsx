@@ -0,0 +1,106 @@
+import React, { useRef, useState } from 'react';
+import { Play, Pause, Upload, Shuffle } from 'lucide-react';
+import { generateRandomWalk, parseRecording, REPLAY_SPEEDS, DEFAULT_SYNTHETIC } from '../lib/replay';
+import type { ReplayScenario, ReplayState, SyntheticOptions } from '../lib/replay';
+import { formatDateTime } from '../lib/format';
+import { errorText, translateText } from '../lib/i18n';
+import type { Text } from '../lib/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface ReplayPanelProps {
+  scenario: ReplayScenario;
+  state: ReplayState;
+  onPlay: () => void;
+  onPause: () => void;
+  onSeek: (index: number) => void;
+  onSpeed: (speed: number) => void;
+  onScenario: (scenario: ReplayScenario) => void;
+}
+
+const inputClass = 'w-full bg-black/50 border-2 border-white/10 rounded-xl px-3 py-2 text-xs font-bold text-white focus:border-hoole-gold outline-none transition-colors';
+const labelClass = 'text-[9px] text-gray-500 font-black tracking-widest uppercase mb-1 block';
+
+const ReplayPanel: React.FC<ReplayPanelProps> = ({ scenario, state, onPlay, onPause, onSeek, onSpeed, onScenario }) => {
+  const { t, locale } = useI18n();
+  const [synthetic, setSynthetic] = useState<SyntheticOptions>(DEFAULT_SYNTHETIC);
+  const [loadError, setLoadError] = useState<Text | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const frame = scenario.frames[Math.max(state.index, 0)];
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onScenario(parseRecording(await file.text(), file.name.replace(/\.(json|csv)$/i, '')));
+      setLoadError(null);
+    } catch (err) {
+      setLoadError(errorText(err) ?? String(err));
+    }
+  };
+
+  const generate = () => {
+    const options = { ...synthetic, seed: synthetic.seed + 1 };
+    setSynthetic(options);
+    onScenario(generateRandomWalk(options));
+    setLoadError(null);
+  };
+
+  const setOption = (key: 'gapPct' | 'volatility', raw: string) => {
+    const val = parseFloat(raw);
+    if (Number.isFinite(val) && val >= 0) setSynthetic((prev) => ({ ...prev, [key]: val }));
+  };
+
+  return (
+    <div className="glass rounded-[2rem] p-5 space-y-4 mb-8">
+      <div className="flex items-center gap-3">
+        <button onClick={state.playing ? onPause : onPlay} aria-label={state.playing ? t('replay.pause') : t('replay.play')}
+          className="w-12 h-12 shrink-0 rounded-full bg-hoole-gold text-black flex items-center justify-center active:scale-95 transition-all">
+          {state.playing ? <Pause className="w-5 h-5" /> : <Play className="w-5 h-5" />}
+        </button>
+        <div className="flex-1 min-w-0">
+          <p className="text-[11px] font-black tracking-widest uppercase text-white truncate">{translateText(t, scenario.name)}</p>
+          <p className="text-[10px] font-black tracking-widest uppercase text-gray-500">
+            {frame ? formatDateTime(frame.t, locale) : '--'} · {state.index + 1}/{scenario.frames.length}
+          </p>
+        </div>
+      </div>
+
+      <input type="range" min={0} max={Math.max(scenario.frames.length - 1, 0)} value={Math.max(state.index, 0)}
+        onChange={(e) => onSeek(Number(e.target.value))} aria-label={t('replay.position')} className="w-full accent-hoole-gold" />
+
+      <div className="flex gap-2">
+        {REPLAY_SPEEDS.map((s) => (
+          <button key={s} onClick={() => onSpeed(s)}
+            className={`flex-1 py-2 rounded-xl text-[10px] font-black tracking-widest uppercase border-2 transition-all ${state.speed === s ? 'bg-hoole-gold text-black border-hoole-gold' : 'bg-white/5 border-white/5 text-gray-500'}`}>
+            {s}x
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className={labelClass}>{t('replay.startGap')}</label>
+          <input type="number" step="any" min={0} value={synthetic.gapPct} onChange={(e) => setOption('gapPct', e.target.value)} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>{t('replay.volatility')}</label>
+          <input type="number" step="any" min={0} value={synthetic.volatility} onChange={(e) => setOption('volatility', e.target.value)} className={inputClass} />
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <button onClick={generate} className="flex-1 flex items-center justify-center gap-2 bg-white/5 border-2 border-white/10 text-white font-black py-3 rounded-2xl active:scale-95 transition-all text-[11px] tracking-widest uppercase">
+          <Shuffle className="w-4 h-4" />{t('replay.generate')}
+        </button>
+        <button onClick={() => fileRef.current?.click()} className="flex-1 flex items-center justify-center gap-2 bg-white/5 border-2 border-white/10 text-white font-black py-3 rounded-2xl active:scale-95 transition-all text-[11px] tracking-widest uppercase">
+          <Upload className="w-4 h-4" />{t('replay.recording')}
+        </button>
+        <input ref={fileRef} type="file" accept=".json,.csv,application/json,text/csv" onChange={handleFile} className="hidden" />
+      </div>
+      {loadError && <p className="text-[10px] text-hoole-rose font-black tracking-widest uppercase text-center">{translateText(t, loadError)}</p>}
+    </div>
+  );
+};
+
+export default ReplayPanel;
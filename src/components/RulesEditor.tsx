@@ -0,0 +1,104 @@
+import React from 'react';
+import { Plus, Trash2, RotateCcw } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { createRule, ruleUnit, deltaUnit, DEFAULT_RULES, MAX_WINDOW_MINUTES } from '../lib/alertRules';
+import type { AlertRule, RuleState } from '../lib/alertRules';
+import { useI18n } from '../hooks/useI18n';
+
+interface RulesEditorProps {
+  rules: AlertRule[];
+  ruleState: RuleState;
+  onChange: (rules: AlertRule[]) => void;
+}
+
+const METRICS: AlertRule['metric'][] = ['gapPct', 'gapBs', 'bcv', 'usdt'];
+
+const inputClass = 'w-full bg-black/50 border-2 border-white/10 rounded-xl px-3 py-2 text-xs font-bold text-white focus:border-hoole-gold outline-none transition-colors';
+const labelClass = 'text-[9px] text-gray-500 font-black tracking-widest uppercase mb-1 block';
+
+const RulesEditor: React.FC<RulesEditorProps> = ({ rules, ruleState, onChange }) => {
+  const { t } = useI18n();
+  const update = (id: string, patch: Partial<AlertRule>) =>
+    onChange(rules.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+
+  const numberField = (rule: AlertRule, key: 'value' | 'windowMinutes' | 'hysteresis' | 'cooldownMinutes', label: string, max?: number) => (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <input type="number" step="any" min={key === 'value' ? undefined : 0} max={max} value={rule[key]}
+        onChange={(e) => {
+          const val = parseFloat(e.target.value);
+          if (Number.isFinite(val)) update(rule.id, { [key]: max !== undefined ? Math.min(val, max) : val });
+        }}
+        className={inputClass} />
+    </div>
+  );
+
+  return (
+    <motion.div key="rules" initial={{ opacity: 0, y: 12 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0 }} className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-2xl font-black tracking-tighter">{t('rules.title')}</h2>
+        <button onClick={() => onChange(DEFAULT_RULES)} className="flex items-center gap-2 text-[10px] text-gray-500 font-black tracking-widest uppercase hover:text-hoole-gold transition-colors">
+          <RotateCcw className="w-4 h-4" />{t('rules.reset')}
+        </button>
+      </div>
+
+      {rules.map((rule) => (
+        <div key={rule.id} className={`glass rounded-[2rem] p-5 space-y-4 border-l-8 ${rule.status === 'devaluation' ? 'border-hoole-rose' : 'border-hoole-emerald'} ${rule.enabled ? '' : 'opacity-40'}`}>
+          <div className="flex items-center gap-3">
+            <input type="text" value={rule.name} onChange={(e) => update(rule.id, { name: e.target.value })} className={inputClass} />
+            {ruleState[rule.id]?.active && <span className="w-3 h-3 rounded-full bg-hoole-gold animate-pulse shrink-0" title={t('rules.active')} />}
+            <button onClick={() => update(rule.id, { enabled: !rule.enabled })}
+              className={`px-3 py-2 rounded-xl text-[10px] font-black tracking-widest uppercase border-2 ${rule.enabled ? 'bg-hoole-gold/20 border-hoole-gold/40 text-hoole-gold' : 'bg-white/5 border-white/5 text-gray-500'}`}>
+              {rule.enabled ? 'ON' : 'OFF'}
+            </button>
+            <button onClick={() => onChange(rules.filter((r) => r.id !== rule.id))} className="p-2 text-gray-600 hover:text-hoole-rose transition-colors" aria-label={t('rules.remove')}>
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>{t('rules.kind')}</label>
+              <select value={rule.kind} onChange={(e) => update(rule.id, { kind: e.target.value as AlertRule['kind'] })} className={inputClass}>
+                <option value="threshold">{t('rules.kind.threshold')}</option>
+                <option value="change">{t('rules.kind.change')}</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>{t('rules.metric')}</label>
+              <select value={rule.metric} onChange={(e) => update(rule.id, { metric: e.target.value as AlertRule['metric'] })} className={inputClass}>
+                {METRICS.map((m) => <option key={m} value={m}>{t(`rules.metric.${m}`)}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>{t('rules.comparator')}</label>
+              <select value={rule.comparator} onChange={(e) => update(rule.id, { comparator: e.target.value as AlertRule['comparator'] })} className={inputClass}>
+                <option value="above">{t('rules.comparator.above')}</option>
+                <option value="below">{t('rules.comparator.below')}</option>
+              </select>
+            </div>
+            {numberField(rule, 'value', t('rules.value', { unit: ruleUnit(rule) }))}
+            {rule.kind === 'change' && numberField(rule, 'windowMinutes', t('rules.window'), MAX_WINDOW_MINUTES)}
+            {numberField(rule, 'hysteresis', t('rules.hysteresis', { unit: deltaUnit(rule) }))}
+            {numberField(rule, 'cooldownMinutes', t('rules.cooldown'))}
+            <div>
+              <label className={labelClass}>{t('rules.status')}</label>
+              <select value={rule.status} onChange={(e) => update(rule.id, { status: e.target.value as AlertRule['status'] })} className={inputClass}>
+                <option value="devaluation">{t('rules.status.devaluation')}</option>
+                <option value="appreciation">{t('rules.status.appreciation')}</option>
+              </select>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <button onClick={() => onChange([...rules, createRule()])}
+        className="w-full flex items-center justify-center gap-2 bg-white/5 border-2 border-white/10 text-white font-black py-4 rounded-2xl active:scale-95 transition-all text-sm tracking-tighter uppercase">
+        <Plus className="w-5 h-5" />{t('rules.add')}
+      </button>
+      <p className="text-[10px] text-gray-600 font-black tracking-widest uppercase text-center">{t('rules.note')}</p>
+    </motion.div>
+  );
+};
+
+export default RulesEditor;
@@ -0,0 +1,143 @@
+import React, { useRef, useState } from 'react';
+import { Plus, Trash2, Copy, Download, Upload, Check } from 'lucide-react';
+import { motion } from 'framer-motion';
+import SourcesEditor from './SourcesEditor';
+import ChannelsEditor from './ChannelsEditor';
+import PairsEditor from './PairsEditor';
+import { createProfile, activeProfile, exportBundle, importBundle } from '../lib/settings';
+import { downloadBlob } from '../lib/export';
+import { LANGUAGE_LABELS, errorText, translateText } from '../lib/i18n';
+import type { Language, Text } from '../lib/i18n';
+import type { Settings, QueryOverrides } from '../lib/settings';
+import type { SourcesConfig } from '../lib/providers';
+import type { GapPair } from '../lib/pairs';
+import type { AlertRule } from '../lib/alertRules';
+import type { ChannelConfig, DeliveryEntry } from '../lib/dispatch';
+import { useI18n } from '../hooks/useI18n';
+
+interface SettingsViewProps {
+  settings: Settings;
+  rules: AlertRule[];
+  overrides: QueryOverrides;
+  deliveryLog: DeliveryEntry[];
+  onChange: (settings: Settings) => void;
+  onImport: (settings: Settings, rules: AlertRule[] | null) => void;
+  onTestChannel?: (channel: ChannelConfig) => void;
+}
+
+const inputClass = 'w-full bg-black/50 border-2 border-white/10 rounded-xl px-3 py-2 text-xs font-bold text-white focus:border-hoole-gold outline-none transition-colors';
+
+const SettingsView: React.FC<SettingsViewProps> = ({ settings, rules, overrides, deliveryLog, onChange, onImport, onTestChannel }) => {
+  const { t } = useI18n();
+  const [importError, setImportError] = useState<Text | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+  const current = activeProfile(settings);
+
+  const updateProfile = (id: string, patch: Partial<Settings['profiles'][number]>) =>
+    onChange({ ...settings, profiles: settings.profiles.map((p) => (p.id === id ? { ...p, ...patch } : p)) });
+
+  const addProfile = (sources?: SourcesConfig, name = t('settings.newProfile'), pairs?: GapPair[]) => {
+    const profile = createProfile(name, sources, pairs);
+    onChange({ ...settings, profiles: [...settings.profiles, profile], activeProfileId: profile.id });
+  };
+
+  const removeProfile = (id: string) => {
+    const profiles = settings.profiles.filter((p) => p.id !== id);
+    onChange({ ...settings, profiles, activeProfileId: id === settings.activeProfileId ? profiles[0].id : settings.activeProfileId });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportBundle(settings, rules)], { type: 'application/json' });
+    downloadBlob(blob, `hoole-config-${new Date().toISOString().slice(0, 10)}.json`);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const bundle = importBundle(await file.text());
+      onImport(bundle.settings, bundle.rules);
+      setImportError(null);
+    } catch (err) {
+      setImportError(errorText(err) ?? String(err));
+    }
+  };
+
+  const toggle = (key: 'demo' | 'muted', label: string) => (
+    <button onClick={() => onChange({ ...settings, [key]: !settings[key] })}
+      className={`flex-1 py-3 rounded-2xl text-[11px] font-black tracking-widest uppercase border-2 transition-all ${settings[key] ? 'bg-hoole-gold/20 border-hoole-gold/40 text-hoole-gold' : 'bg-white/5 border-white/5 text-gray-500'}`}>
+      {label}: {settings[key] ? 'ON' : 'OFF'}
+    </button>
+  );
+
+  return (
+    <motion.div key="settings" initial={{ opacity: 0, y: 12 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0 }} className="space-y-6">
+      <h2 className="text-2xl font-black tracking-tighter">{t('settings.profiles')}</h2>
+
+      {settings.profiles.map((profile) => (
+        <div key={profile.id} className={`glass rounded-[2rem] p-4 flex items-center gap-2 border-l-8 ${profile.id === current.id ? 'border-hoole-gold' : 'border-gray-800'}`}>
+          <button onClick={() => onChange({ ...settings, activeProfileId: profile.id })}
+            className={`w-8 h-8 shrink-0 rounded-full flex items-center justify-center border-2 ${profile.id === current.id ? 'bg-hoole-gold border-hoole-gold text-black' : 'border-white/10 text-transparent'}`} aria-label={t('settings.activate')}>
+            <Check className="w-4 h-4" />
+          </button>
+          <input type="text" value={profile.name} onChange={(e) => updateProfile(profile.id, { name: e.target.value })} className={inputClass} />
+          <button onClick={() => addProfile(profile.sources, t('settings.copyName', { name: profile.name }), profile.pairs)} className="p-2 text-gray-600 hover:text-hoole-gold transition-colors" aria-label={t('settings.duplicate')}>
+            <Copy className="w-4 h-4" />
+          </button>
+          {settings.profiles.length > 1 && (
+            <button onClick={() => removeProfile(profile.id)} className="p-2 text-gray-600 hover:text-hoole-rose transition-colors" aria-label={t('settings.remove')}>
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      ))}
+
+      <button onClick={() => addProfile()}
+        className="w-full flex items-center justify-center gap-2 bg-white/5 border-2 border-white/10 text-white font-black py-4 rounded-2xl active:scale-95 transition-all text-sm tracking-tighter uppercase">
+        <Plus className="w-5 h-5" />{t('settings.add')}
+      </button>
+
+      <div className="flex gap-2">
+        {toggle('demo', t('settings.demo'))}
+        {toggle('muted', t('settings.muted'))}
+      </div>
+
+      <div className="flex gap-2">
+        {(Object.keys(LANGUAGE_LABELS) as Language[]).map((language) => (
+          <button key={language} onClick={() => onChange({ ...settings, language })}
+            className={`flex-1 py-3 rounded-2xl text-[11px] font-black tracking-widest uppercase border-2 transition-all ${settings.language === language ? 'bg-hoole-gold text-black border-hoole-gold' : 'bg-white/5 border-white/5 text-gray-500'}`}>
+            {LANGUAGE_LABELS[language]}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <button onClick={handleExport} className="flex-1 flex items-center justify-center gap-2 bg-white/5 border-2 border-white/10 text-white font-black py-3 rounded-2xl active:scale-95 transition-all text-[11px] tracking-widest uppercase">
+          <Download className="w-4 h-4" />{t('settings.export')}
+        </button>
+        <button onClick={() => fileRef.current?.click()} className="flex-1 flex items-center justify-center gap-2 bg-white/5 border-2 border-white/10 text-white font-black py-3 rounded-2xl active:scale-95 transition-all text-[11px] tracking-widest uppercase">
+          <Upload className="w-4 h-4" />{t('settings.import')}
+        </button>
+        <input ref={fileRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+      </div>
+      {importError && <p className="text-[10px] text-hoole-rose font-black tracking-widest uppercase text-center">{translateText(t, importError)}</p>}
+
+      {(overrides.webhook || overrides.stream || overrides.language) && (
+        <p className="text-[10px] text-hoole-gold font-black tracking-widest uppercase text-center">
+          {t('settings.overrides', {
+            fields: [overrides.webhook && 'webhook', overrides.stream && 'stream', overrides.language && t('settings.language')].filter(Boolean).join(' · '),
+          })}
+        </p>
+      )}
+
+      <SourcesEditor config={current.sources} onChange={(sources) => updateProfile(current.id, { sources })} />
+
+      <PairsEditor pairs={current.pairs} onChange={(pairs) => updateProfile(current.id, { pairs })} />
+
+      <ChannelsEditor channels={settings.channels} log={deliveryLog} onChange={(channels) => onChange({ ...settings, channels })} onTest={onTestChannel} />
+    </motion.div>
+  );
+};
+
+export default SettingsView;
@@ -0,0 +1,139 @@
+import React from 'react';
+import { Plus, Trash2, ChevronUp, ChevronDown } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { createProvider, PROVIDER_KIND_LABELS } from '../lib/providers';
+import type { ProviderConfig, ProviderKind, SourcesConfig } from '../lib/providers';
+import { STREAM_KIND_LABELS } from '../lib/stream';
+import { validateProviderUrl, validateStreamUrl } from '../lib/settings';
+import type { StreamKind } from '../lib/stream';
+import { translateText } from '../lib/i18n';
+import { useI18n } from '../hooks/useI18n';
+
+interface SourcesEditorProps {
+  config: SourcesConfig;
+  onChange: (config: SourcesConfig) => void;
+}
+
+const inputClass = 'w-full bg-black/50 border-2 border-white/10 rounded-xl px-3 py-2 text-xs font-bold text-white focus:border-hoole-gold outline-none transition-colors';
+const labelClass = 'text-[9px] text-gray-500 font-black tracking-widest uppercase mb-1 block';
+const errorClass = 'text-[9px] text-hoole-rose font-black tracking-widest uppercase mt-1 block';
+
+const SourcesEditor: React.FC<SourcesEditorProps> = ({ config, onChange }) => {
+  const { t } = useI18n();
+  const streamError = validateStreamUrl(config);
+  const setProviders = (providers: ProviderConfig[]) => onChange({ ...config, providers });
+
+  const update = (id: string, patch: Partial<ProviderConfig>) =>
+    setProviders(config.providers.map((p) => (p.id === id ? { ...p, ...patch } : p)));
+
+  const numberField = (key: 'tolerancePct' | 'outlierPct' | 'staleAfterMinutes', label: string) => (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <input type="number" step="any" min={0} value={config[key]}
+        onChange={(e) => {
+          const val = parseFloat(e.target.value);
+          if (Number.isFinite(val) && val >= 0) onChange({ ...config, [key]: val });
+        }}
+        className={inputClass} />
+    </div>
+  );
+
+  const move = (index: number, dir: -1 | 1) => {
+    const next = [...config.providers];
+    const target = index + dir;
+    if (target < 0 || target >= next.length) return;
+    [next[index], next[target]] = [next[target], next[index]];
+    setProviders(next);
+  };
+
+  return (
+    <motion.div key="sources" initial={{ opacity: 0, y: 12 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0 }} className="space-y-6">
+      <h2 className="text-2xl font-black tracking-tighter">{t('sources.title')}</h2>
+
+      <div className="glass rounded-[2rem] p-5 space-y-4">
+        <div className="flex gap-2">
+          {(['failover', 'aggregate'] as const).map((s) => (
+            <button key={s} onClick={() => onChange({ ...config, strategy: s })}
+              className={`flex-1 py-3 rounded-2xl text-[11px] font-black tracking-widest uppercase border-2 transition-all ${config.strategy === s ? 'bg-hoole-gold text-black border-hoole-gold' : 'bg-white/5 border-white/5 text-gray-500'}`}>
+              {t(`sources.strategy.${s}`)}
+            </button>
+          ))}
+        </div>
+        <p className="text-[9px] text-gray-600 font-black tracking-widest uppercase">{t(`sources.strategyNote.${config.strategy}`)}</p>
+        <div className="grid grid-cols-3 gap-3">
+          {numberField('tolerancePct', t('sources.tolerance'))}
+          {numberField('outlierPct', t('sources.outlier'))}
+          {numberField('staleAfterMinutes', t('sources.staleAfter'))}
+        </div>
+        <p className="text-[9px] text-gray-600 font-black tracking-widest uppercase">{t('sources.zeroDisables')}</p>
+      </div>
+
+      <div className="glass rounded-[2rem] p-5 space-y-4">
+        <div>
+          <label className={labelClass}>{t('sources.stream')}</label>
+          <select value={config.stream.kind} onChange={(e) => onChange({ ...config, stream: { ...config.stream, kind: e.target.value as StreamKind } })} className={inputClass}>
+            {(Object.keys(STREAM_KIND_LABELS) as StreamKind[]).map((k) => <option key={k} value={k}>{t(`stream.${k}`)}</option>)}
+          </select>
+        </div>
+        {config.stream.kind !== 'off' && (
+          <div>
+            <label className={labelClass}>{t('sources.streamUrl')}</label>
+            {/* Committed on blur so typing doesn't reconnect on every keystroke */}
+            <input key={config.stream.url} type="text" defaultValue={config.stream.url}
+              onBlur={(e) => onChange({ ...config, stream: { ...config.stream, url: e.target.value.trim() } })}
+              placeholder={config.stream.kind === 'ws' ? 'wss://...' : 'https://.../events'} className={inputClass} />
+            {streamError && <span className={errorClass}>{translateText(t, streamError)}</span>}
+          </div>
+        )}
+      </div>
+
+      {config.providers.map((provider, i) => (
+        <div key={provider.id} className={`glass rounded-[2rem] p-5 space-y-4 border-l-8 ${i === 0 && config.strategy === 'failover' ? 'border-hoole-gold' : 'border-gray-800'} ${provider.enabled ? '' : 'opacity-40'}`}>
+          <div className="flex items-center gap-2">
+            <input type="text" value={provider.name} onChange={(e) => update(provider.id, { name: e.target.value })} className={inputClass} />
+            <button onClick={() => move(i, -1)} className="p-1 text-gray-600 hover:text-hoole-gold" aria-label={t('sources.moveUp')}><ChevronUp className="w-4 h-4" /></button>
+            <button onClick={() => move(i, 1)} className="p-1 text-gray-600 hover:text-hoole-gold" aria-label={t('sources.moveDown')}><ChevronDown className="w-4 h-4" /></button>
+            <button onClick={() => update(provider.id, { enabled: !provider.enabled })}
+              className={`px-3 py-2 rounded-xl text-[10px] font-black tracking-widest uppercase border-2 ${provider.enabled ? 'bg-hoole-gold/20 border-hoole-gold/40 text-hoole-gold' : 'bg-white/5 border-white/5 text-gray-500'}`}>
+              {provider.enabled ? 'ON' : 'OFF'}
+            </button>
+            <button onClick={() => setProviders(config.providers.filter((p) => p.id !== provider.id))} className="p-2 text-gray-600 hover:text-hoole-rose transition-colors" aria-label={t('sources.remove')}>
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div>
+            <label className={labelClass}>{t(`provider.${provider.kind}`)} · URL</label>
+            <input type="text" value={provider.url} onChange={(e) => update(provider.id, { url: e.target.value })}
+              placeholder={provider.kind === 'static' ? '/market-sample.json' : 'https://...'} className={inputClass} />
+            {provider.enabled && validateProviderUrl(provider) && <span className={errorClass}>{translateText(t, validateProviderUrl(provider)!)}</span>}
+          </div>
+
+          {provider.kind === 'json' && (
+            <div className="grid grid-cols-3 gap-3">
+              {(['bcv', 'usdt', 'timestamp'] as const).map((key) => (
+                <div key={key}>
+                  <label className={labelClass}>{t('sources.path', { key })}</label>
+                  <input type="text" value={provider.mapping[key]} placeholder={key === 'timestamp' ? t('sources.optional') : 'data.precio'}
+                    onChange={(e) => update(provider.id, { mapping: { ...provider.mapping, [key]: e.target.value } })}
+                    className={inputClass} />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="grid grid-cols-3 gap-2">
+        {(Object.keys(PROVIDER_KIND_LABELS) as ProviderKind[]).map((kind) => (
+          <button key={kind} onClick={() => setProviders([...config.providers, createProvider(kind)])}
+            className="flex flex-col items-center justify-center gap-1 bg-white/5 border-2 border-white/10 text-white font-black py-3 rounded-2xl active:scale-95 transition-all text-[10px] tracking-widest uppercase">
+            <Plus className="w-4 h-4" />{t(`provider.${kind}`)}
+          </button>
+        ))}
+      </div>
+    </motion.div>
+  );
+};
+
+export default SourcesEditor;
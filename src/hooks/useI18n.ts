@@ -0,0 +1,20 @@
+import { createContext, useContext } from 'react';
+import { createTranslator, LANGUAGE_LOCALES } from '../lib/i18n';
+import type { Language, Translate } from '../lib/i18n';
+import type { Locale } from '../lib/format';
+
+export interface I18n {
+  language: Language;
+  locale: Locale; // for the number and date formatters
+  t: Translate;
+}
+
+export const createI18n = (language: Language): I18n => ({
+  language,
+  locale: LANGUAGE_LOCALES[language],
+  t: createTranslator(language),
+});
+
+export const I18nContext = createContext<I18n>(createI18n('es'));
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RULES, describeTrigger, evaluateRules } from './alertRules';
+import type { AlertRule, RuleState } from './alertRules';
+import { sampleFromReading } from './history';
+import type { HistorySample } from './history';
+import { readingForGap } from '../test/fixtures';
+
+const MINUTE = 60 * 1000;
+
+// Feeds gaps one minute apart and returns the status after each
+const run = (rules: AlertRule[], gaps: number[]) => {
+  let state: RuleState = {};
+  const recent: HistorySample[] = [];
+  return gaps.map((gap, i) => {
+    const sample = sampleFromReading(readingForGap(gap, i * MINUTE));
+    const evaluation = evaluateRules(rules, sample, recent, state);
+    state = evaluation.state;
+    recent.push(sample);
+    return evaluation.status;
+  });
+};
+
+describe('default gap classification', () => {
+  it('is stable between the thresholds, inclusive', () => {
+    expect(run(DEFAULT_RULES, [6, 7.5, 9])).toEqual(['stable', 'stable', 'stable']);
+  });
+
+  it('flags devaluation just above 9%', () => {
+    expect(run(DEFAULT_RULES, [9.01])).toEqual(['devaluation']);
+  });
+
+  it('flags appreciation just below 6%', () => {
+    expect(run(DEFAULT_RULES, [5.99])).toEqual(['appreciation']);
+  });
+
+  it('holds an alert until the gap clears the hysteresis band', () => {
+    expect(run(DEFAULT_RULES, [9.5, 8.8, 8.7])).toEqual(['devaluation', 'devaluation', 'stable']);
+    expect(run(DEFAULT_RULES, [5.5, 6.2, 6.3])).toEqual(['appreciation', 'appreciation', 'stable']);
+  });
+
+  it('waits for the cooldown before triggering the same rule again', () => {
+    // Cleared at minute 1, back above at minute 2: still inside the 5 minute cooldown
+    expect(run(DEFAULT_RULES, [9.5, 8, 9.5, 9.5, 9.5, 9.5])).toEqual(
+      ['devaluation', 'stable', 'stable', 'stable', 'stable', 'devaluation'],
+    );
+  });
+
+  it('ignores disabled rules', () => {
+    const rules = DEFAULT_RULES.map((r) => ({ ...r, enabled: r.status !== 'devaluation' }));
+    expect(run(rules, [12])).toEqual(['stable']);
+  });
+});
+
+describe('change rules', () => {
+  const rule: AlertRule = {
+    id: 'jump', name: 'Salto', enabled: true, kind: 'change', metric: 'gapPct', comparator: 'above',
+    value: 1, windowMinutes: 2, hysteresis: 0, cooldownMinutes: 0, status: 'devaluation',
+  };
+
+  it('compares against the oldest reading inside the window', () => {
+    expect(run([rule], [7, 7.5, 8.1])).toEqual(['stable', 'stable', 'devaluation']);
+  });
+
+  it('stays quiet when the move is spread beyond the window', () => {
+    expect(run([rule], [7, 7.5, 7.9, 8.3])).toEqual(['stable', 'stable', 'stable', 'stable']);
+  });
+
+  it('keeps reporting the last move while the window has no reference', () => {
+    const before = sampleFromReading(readingForGap(7, 0));
+    const jump = sampleFromReading(readingForGap(8.5, MINUTE));
+    const first = evaluateRules([rule], jump, [before], {});
+    // Ten minutes later nothing falls inside the two minute window
+    const later = sampleFromReading(readingForGap(8.5, 10 * MINUTE));
+    const { state, status, trigger } = evaluateRules([rule], later, [before, jump], first.state);
+
+    expect(state.jump.active).toBe(true);
+    expect(status).toBe('devaluation');
+    expect(trigger).toMatchObject({ measured: first.trigger!.measured, at: later.t });
+  });
+});
+
+describe('describeTrigger', () => {
+  it('gives the distance past a gap level in points', () => {
+    const { trigger } = evaluateRules(DEFAULT_RULES, sampleFromReading(readingForGap(9.5)), [], {});
+    expect(describeTrigger(trigger!)).toBe('Brecha alta: 9,50% (+0,50 pts)');
+  });
+});
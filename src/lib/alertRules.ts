@@ -0,0 +1,187 @@
+import { formatNumber, DEFAULT_LOCALE } from './format';
+import type { Locale } from './format';
+import type { MarketStatus } from '../types';
+import type { HistorySample } from './history';
+
+// --- Alert Rules Engine ---
+
+export type RuleKind = 'threshold' | 'change';
+export type RuleMetric = 'gapPct' | 'gapBs' | 'bcv' | 'usdt';
+export type RuleComparator = 'above' | 'below';
+export type AlertStatus = Exclude<MarketStatus, 'stable'>;
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  kind: RuleKind;
+  metric: RuleMetric;
+  comparator: RuleComparator;
+  value: number; // level for 'threshold', signed change for 'change'
+  windowMinutes: number; // lookback for 'change' rules
+  hysteresis: number; // how far back past `value` the metric must go to clear
+  cooldownMinutes: number; // minimum time between two triggers of the same rule
+  status: AlertStatus;
+}
+
+export interface RuleRuntime {
+  active: boolean;
+  lastTriggered: number;
+  last?: Pick<AlertTrigger, 'measured' | 'delta'>; // latest measurement while active, reused when a reading can't be measured
+}
+
+export type RuleState = Record<string, RuleRuntime>;
+
+export interface AlertTrigger {
+  rule: AlertRule;
+  measured: number;
+  delta: number; // distance past the threshold, or the measured change itself
+  at: number;
+}
+
+export interface RuleEvaluation {
+  state: RuleState;
+  status: MarketStatus;
+  trigger: AlertTrigger | null;
+}
+
+export const MAX_WINDOW_MINUTES = 24 * 60;
+
+const STORAGE_KEY = 'hoole.alertRules';
+const MINUTE = 60 * 1000;
+
+export const DEFAULT_RULES: AlertRule[] = [
+  {
+    id: 'default-devaluation', name: 'Brecha alta', enabled: true, kind: 'threshold', metric: 'gapPct',
+    comparator: 'above', value: 9, windowMinutes: 0, hysteresis: 0.25, cooldownMinutes: 5, status: 'devaluation',
+  },
+  {
+    id: 'default-appreciation', name: 'Brecha baja', enabled: true, kind: 'threshold', metric: 'gapPct',
+    comparator: 'below', value: 6, windowMinutes: 0, hysteresis: 0.25, cooldownMinutes: 5, status: 'appreciation',
+  },
+];
+
+export const createRule = (): AlertRule => ({
+  id: `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name: 'Nueva regla',
+  enabled: true,
+  kind: 'change',
+  metric: 'usdt',
+  comparator: 'above',
+  value: 2,
+  windowMinutes: 30,
+  hysteresis: 0.5,
+  cooldownMinutes: 15,
+  status: 'devaluation',
+});
+
+// Gap % changes are measured in points, everything else as a relative change.
+export const ruleUnit = (rule: Pick<AlertRule, 'kind' | 'metric'>) => {
+  if (rule.metric === 'gapPct') return rule.kind === 'change' ? 'pts' : '%';
+  return rule.kind === 'change' ? '%' : 'Bs.';
+};
+
+// Distances from a rule's value (hysteresis, trigger delta): a gap % level minus a gap % level is in points.
+export const deltaUnit = (rule: Pick<AlertRule, 'kind' | 'metric'>) => (rule.metric === 'gapPct' ? 'pts' : ruleUnit(rule));
+
+const formatWithUnit = (unit: string, val: number, signed: boolean, locale: Locale) => {
+  const num = `${signed && val > 0 ? '+' : ''}${formatNumber(val, locale)}`;
+  return unit === 'Bs.' ? `Bs. ${num}` : `${num}${unit === '%' ? '%' : ` ${unit}`}`;
+};
+
+export const formatRuleValue = (rule: Pick<AlertRule, 'kind' | 'metric'>, val: number, signed = false, locale: Locale = DEFAULT_LOCALE) =>
+  formatWithUnit(ruleUnit(rule), val, signed, locale);
+
+export const describeTrigger = (trigger: AlertTrigger, locale: Locale = DEFAULT_LOCALE) =>
+  `${trigger.rule.name}: ${formatRuleValue(trigger.rule, trigger.measured, false, locale)} (${formatWithUnit(deltaUnit(trigger.rule), trigger.delta, true, locale)})`;
+
+const measure = (rule: AlertRule, reading: HistorySample, recent: HistorySample[]): number | null => {
+  const current = reading[rule.metric];
+  if (!Number.isFinite(current)) return null;
+  if (rule.kind === 'threshold') return current;
+
+  const since = reading.t - Math.min(rule.windowMinutes, MAX_WINDOW_MINUTES) * MINUTE;
+  const ref = recent.find((s) => s.t >= since && s.t < reading.t);
+  if (!ref || !Number.isFinite(ref[rule.metric])) return null;
+  if (rule.metric === 'gapPct') return current - ref.gapPct;
+  return ref[rule.metric] === 0 ? null : ((current - ref[rule.metric]) / ref[rule.metric]) * 100;
+};
+
+/**
+ * Evaluates every enabled rule against a new reading. `recent` must be sorted
+ * by time. The first active rule in list order decides the resulting status.
+ */
+export const evaluateRules = (
+  rules: AlertRule[],
+  reading: HistorySample,
+  recent: HistorySample[],
+  prev: RuleState,
+): RuleEvaluation => {
+  const state: RuleState = {};
+  let trigger: AlertTrigger | null = null;
+
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    const runtime = prev[rule.id] ?? { active: false, lastTriggered: -Infinity };
+    const measured = measure(rule, reading, recent);
+    let { active, lastTriggered } = runtime;
+
+    if (measured !== null) {
+      const crossed = rule.comparator === 'above' ? measured > rule.value : measured < rule.value;
+      const cleared = rule.comparator === 'above'
+        ? measured < rule.value - rule.hysteresis
+        : measured > rule.value + rule.hysteresis;
+
+      if (!active && crossed && reading.t - lastTriggered >= rule.cooldownMinutes * MINUTE) {
+        active = true;
+        lastTriggered = reading.t;
+      } else if (active && cleared) {
+        active = false;
+      }
+    }
+
+    // An active rule that can't be measured this time (no reference sample yet) keeps
+    // reporting its last measurement, so the status and the trigger never disagree
+    const last = measured !== null
+      ? { measured, delta: rule.kind === 'threshold' ? measured - rule.value : measured }
+      : runtime.last;
+    state[rule.id] = active ? { active, lastTriggered, last } : { active, lastTriggered };
+    if (active && !trigger && last) {
+      trigger = { rule, ...last, at: reading.t };
+    }
+  }
+
+  return { state, status: trigger ? trigger.rule.status : 'stable', trigger };
+};
+
+// --- Persistence ---
+
+export const isRule = (r: unknown): r is AlertRule => {
+  if (!r || typeof r !== 'object') return false;
+  const rule = r as Record<string, unknown>;
+  return typeof rule.id === 'string'
+    && typeof rule.name === 'string'
+    && typeof rule.enabled === 'boolean'
+    && (rule.kind === 'threshold' || rule.kind === 'change')
+    && ['gapPct', 'gapBs', 'bcv', 'usdt'].includes(rule.metric as string)
+    && (rule.comparator === 'above' || rule.comparator === 'below')
+    && (rule.status === 'devaluation' || rule.status === 'appreciation')
+    && ['value', 'windowMinutes', 'hysteresis', 'cooldownMinutes'].every((k) => Number.isFinite(rule[k]));
+};
+
+export const loadRules = (): AlertRule[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return DEFAULT_RULES;
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isRule) : DEFAULT_RULES;
+  } catch {
+    return DEFAULT_RULES;
+  }
+};
+
+export const saveRules = (rules: AlertRule[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+  } catch (e) { console.error("Rules storage error:", e); }
+};
@@ -0,0 +1,58 @@
+// --- Fixed-point amounts ---
+// Prices are kept as integer ten-thousandths so sums and differences stay
+// exact; only ratios (gap %) go through floating point.
+
+export type Currency = 'VES' | 'USD' | 'USDT' | 'EUR' | 'ARS' | 'NGN';
+
+export const AMOUNT_DECIMALS = 4;
+const FACTOR = 10 ** AMOUNT_DECIMALS;
+
+export interface Amount {
+  units: number; // integer count of 1 / 10^AMOUNT_DECIMALS
+  currency: Currency;
+}
+
+/** Builds an amount from a normalized decimal string such as "-1234.5678". */
+export const amountFromDecimal = (decimal: string, currency: Currency): Amount | null => {
+  const match = /^(-?)(\d+)(?:\.(\d+))?$/.exec(decimal);
+  if (!match) return null;
+  const [, sign, int, frac = ''] = match;
+  const padded = (frac + '0'.repeat(AMOUNT_DECIMALS + 1)).slice(0, AMOUNT_DECIMALS + 1);
+  let units = Number(int) * FACTOR + Number(padded.slice(0, AMOUNT_DECIMALS));
+  if (Number(padded[AMOUNT_DECIMALS]) >= 5) units += 1; // round half up on the dropped digit
+  if (!Number.isSafeInteger(units)) return null;
+  return { units: sign ? -units : units, currency };
+};
+
+export const amountFromNumber = (val: number, currency: Currency): Amount => ({
+  units: Math.round(val * FACTOR),
+  currency,
+});
+
+export const amountToNumber = (amount: Amount) => amount.units / FACTOR;
+
+export const subtractAmounts = (a: Amount, b: Amount): Amount => ({
+  units: a.units - b.units,
+  currency: a.currency,
+});
+
+export const amountsDiffer = (a: Amount, b: Amount, tolerance: number) =>
+  Math.abs(a.units - b.units) > Math.round(tolerance * FACTOR);
+
+// Products of two unit counts pass 2^53 quickly (a million bolívares at 100 Bs./$ already
+// does), so they are taken in BigInt and rounded like Math.round on the way back.
+const roundedQuotient = (num: bigint, den: bigint) => {
+  const [n, d] = den < 0n ? [-2n * num - den, -2n * den] : [2n * num + den, 2n * den];
+  const q = n / d;
+  return Number(n % d !== 0n && n < 0n ? q - 1n : q);
+};
+
+/** Converts at a price quoted in `rate.currency` per unit of `amount.currency`. */
+export const multiplyAmount = (amount: Amount, rate: Amount): Amount => ({
+  units: roundedQuotient(BigInt(amount.units) * BigInt(rate.units), BigInt(FACTOR)),
+  currency: rate.currency,
+});
+
+/** Inverse of multiplyAmount; returns null for a zero rate. */
+export const divideAmount = (amount: Amount, rate: Amount, currency: Currency): Amount | null =>
+  rate.units === 0 ? null : { units: roundedQuotient(BigInt(amount.units) * BigInt(FACTOR), BigInt(rate.units)), currency };
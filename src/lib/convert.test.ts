@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { amountFromDecimal, amountToNumber } from './amount';
+import type { Amount, Currency } from './amount';
+import { convertAmount } from './convert';
+
+const amount = (decimal: string, currency: Currency) => amountFromDecimal(decimal, currency) as Amount;
+
+const READING = { bcv: amount('100', 'VES'), usdt: amount('125', 'VES') };
+
+describe('convertAmount', () => {
+  it('values dollars at both rates in bolívares', () => {
+    const conversion = convertAmount(amount('10', 'USD'), READING)!;
+
+    expect(amountToNumber(conversion.official)).toBe(1000);
+    expect(amountToNumber(conversion.parallel)).toBe(1250);
+    expect(conversion.difference).toEqual(amount('250', 'VES'));
+    expect(conversion.differencePct).toBeCloseTo(25);
+  });
+
+  it('stays exact for amounts whose product passes the safe integer range', () => {
+    // ~10^14 units times 365005 units; a float product is off by one unit here
+    const conversion = convertAmount(amount('9999999999.9999', 'USD'), { ...READING, bcv: amount('36.5005', 'VES') })!;
+    expect(conversion.official).toEqual(amount('365004999999.9963', 'VES'));
+  });
+
+  it('compares bolívar inputs in bolívares rather than mixing USD and USDT', () => {
+    const conversion = convertAmount(amount('1000', 'VES'), READING)!;
+
+    expect(conversion.official).toEqual(amount('10', 'USD'));
+    expect(conversion.parallel).toEqual(amount('8', 'USDT'));
+    // 8 USDT are worth Bs. 800 at BCV, Bs. 200 less than what was paid
+    expect(conversion.difference).toEqual(amount('-200', 'VES'));
+    expect(conversion.differencePct).toBeCloseTo(-20);
+  });
+});
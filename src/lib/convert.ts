@@ -0,0 +1,107 @@
+import { amountFromDecimal, amountToNumber, divideAmount, multiplyAmount, subtractAmounts } from './amount';
+import type { Amount, Currency } from './amount';
+import { normalizeDecimal } from './parse';
+import type { Locale } from './format';
+import type { MarketReading } from '../types';
+
+// --- Currency Converter ---
+
+// The calculator works on the BCV / USDT pair only
+export type CalculatorCurrency = Extract<Currency, 'USD' | 'USDT' | 'VES'>;
+
+export interface SavedAmount {
+  id: string;
+  value: string; // normalized decimal, e.g. "150.5"
+  currency: CalculatorCurrency;
+}
+
+/**
+ * One input amount valued at both rates. Dollar inputs (USD or USDT) come out
+ * in bolívares; bolívar inputs come out in dollars (USD at BCV, USDT at the
+ * parallel rate). `difference` is parallel minus official, always in
+ * bolívares: for bolívar inputs the USDT is valued back at BCV, as USD and
+ * USDT can't be subtracted. It is a gain when selling dollars and a loss
+ * when buying them with bolívares.
+ */
+export interface Conversion {
+  input: Amount;
+  official: Amount;
+  parallel: Amount;
+  difference: Amount;
+  differencePct: number;
+}
+
+const STORAGE_KEY = 'hoole.savedAmounts';
+
+export const CURRENCY_LABELS: Record<CalculatorCurrency, string> = {
+  USD: 'Dólares',
+  USDT: 'USDT',
+  VES: 'Bolívares',
+};
+
+export const parseAmountInput = (raw: string, currency: Currency, locale: Locale): Amount | null => {
+  const decimal = normalizeDecimal(raw, locale);
+  const amount = decimal === null ? null : amountFromDecimal(decimal, currency);
+  return amount && amount.units > 0 ? amount : null;
+};
+
+export const convertAmount = (input: Amount, reading: Pick<MarketReading, 'bcv' | 'usdt'>): Conversion | null => {
+  let official: Amount | null;
+  let parallel: Amount | null;
+  if (input.currency === 'VES') {
+    official = divideAmount(input, reading.bcv, 'USD');
+    parallel = divideAmount(input, reading.usdt, 'USDT');
+  } else {
+    official = multiplyAmount(input, reading.bcv);
+    parallel = multiplyAmount(input, reading.usdt);
+  }
+  if (!official || !parallel || official.units === 0) return null;
+
+  // Both sides in bolívares; a bolívar input is what the official dollars cost at BCV
+  const [officialBs, parallelBs] = input.currency === 'VES'
+    ? [input, multiplyAmount(parallel, reading.bcv)]
+    : [official, parallel];
+  const difference = subtractAmounts(parallelBs, officialBs);
+  return {
+    input,
+    official,
+    parallel,
+    difference,
+    differencePct: (difference.units / officialBs.units) * 100,
+  };
+};
+
+export const createSavedAmount = (amount: Amount & { currency: CalculatorCurrency }): SavedAmount => ({
+  id: `amt-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  value: String(amountToNumber(amount)),
+  currency: amount.currency,
+});
+
+const isSavedAmount = (a: unknown): a is SavedAmount => {
+  if (!a || typeof a !== 'object') return false;
+  const item = a as Record<string, unknown>;
+  return typeof item.id === 'string'
+    && typeof item.value === 'string'
+    && amountFromDecimal(item.value, 'VES') !== null
+    && typeof item.currency === 'string'
+    && item.currency in CURRENCY_LABELS;
+};
+
+// --- Persistence ---
+
+export const loadSavedAmounts = (): SavedAmount[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter(isSavedAmount) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveSavedAmounts = (amounts: SavedAmount[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(amounts));
+  } catch (e) { console.error("Saved amounts storage error:", e); }
+};
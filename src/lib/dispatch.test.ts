@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createChannel, dispatchAlert, renderTemplate } from './dispatch';
+import type { ChannelConfig, DeliveryEntry } from './dispatch';
+import { createTranslator } from './i18n';
+import type { MarketData } from '../types';
+import { TEST_SOURCE, jsonResponse, readingForGap } from '../test/fixtures';
+
+const DATA: MarketData = { ...readingForGap(12), status: 'devaluation', source: TEST_SOURCE };
+
+const telegram: ChannelConfig = { ...createChannel('telegram'), id: 'tg', url: 'https://api.telegram.org/', token: 'abc', target: '42' };
+const webhook: ChannelConfig = { ...createChannel('webhook'), id: 'hook', url: 'https://hooks.test/alert', token: 'secret' };
+
+// Runs one dispatch with the injected fetch and sleep, returning what was logged
+const send = async (channel: ChannelConfig, answers: unknown[], options: { log?: DeliveryEntry[]; force?: boolean } = {}) => {
+  let call = 0;
+  const fetchImpl = vi.fn(async () => {
+    const answer = answers[Math.min(call++, answers.length - 1)];
+    if (!(answer && typeof answer === 'object' && 'status' in answer)) throw answer;
+    return answer as Response;
+  });
+  const sleep = vi.fn(async () => {});
+  const onEntry = vi.fn();
+  const [entry] = await dispatchAlert([channel], DATA, 'Brecha % > 10', { log: options.log ?? [], force: options.force, onEntry, fetchImpl, sleep });
+  return { entry, fetchImpl, sleep, onEntry };
+};
+
+describe('renderTemplate', () => {
+  it('fills known fields and drops lines left empty', () => {
+    const text = renderTemplate('{status}\n{detail}\n{gapPct} {unknown}', DATA, null);
+    expect(text).toBe('Alerta de devaluación\n12,00% {unknown}');
+  });
+
+  it('words the status and numbers in the given language', () => {
+    const text = renderTemplate('{status} {gapPct}', DATA, null, createTranslator('en'), 'en-US');
+    expect(text).toBe('Devaluation alert 12.00%');
+  });
+});
+
+describe('dispatchAlert', () => {
+  it('posts to the Telegram bot URL with the chat id', async () => {
+    const { entry, fetchImpl } = await send(telegram, [jsonResponse({ ok: true })]);
+
+    expect(entry).toMatchObject({ status: 'sent', attempts: 1 });
+    const [url, init] = fetchImpl.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://api.telegram.org/botabc/sendMessage');
+    expect(JSON.parse(init.body as string)).toMatchObject({ chat_id: '42' });
+  });
+
+  it('sends a bearer token and the reading to webhooks', async () => {
+    const { fetchImpl } = await send(webhook, [jsonResponse({})]);
+    const [, init] = fetchImpl.mock.calls[0] as unknown as [string, RequestInit];
+
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer secret' });
+    expect(JSON.parse(init.body as string)).toMatchObject({ status: 'devaluation', gapPct: expect.closeTo(12), detail: 'Brecha % > 10' });
+  });
+
+  it('retries server errors with a growing backoff', async () => {
+    const { entry, fetchImpl, sleep } = await send(webhook, [jsonResponse({}, 503), new TypeError('Failed to fetch'), jsonResponse({})]);
+
+    expect(entry).toMatchObject({ status: 'sent', attempts: 3 });
+    expect(fetchImpl).toHaveBeenCalledTimes(3);
+    const [first, second] = sleep.mock.calls.map((c) => (c as unknown as [number])[0]);
+    expect(second).toBeGreaterThan(first);
+  });
+
+  it('gives up after the last attempt', async () => {
+    const { entry, fetchImpl } = await send(webhook, [jsonResponse({}, 500)]);
+
+    expect(entry).toMatchObject({ status: 'failed', attempts: 3, error: 'HTTP 500' });
+    expect(fetchImpl).toHaveBeenCalledTimes(3);
+  });
+
+  it('does not retry other client errors', async () => {
+    const { entry, fetchImpl, sleep } = await send(webhook, [jsonResponse({}, 401)]);
+
+    expect(entry).toMatchObject({ status: 'failed', attempts: 1, error: 'HTTP 401' });
+    expect(fetchImpl).toHaveBeenCalledTimes(1);
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('rate limits a channel that sent recently', async () => {
+    const log: DeliveryEntry[] = [{ id: 'd1', channelId: 'hook', channelName: 'Webhook', at: Date.now() - 60 * 1000, status: 'sent', attempts: 1, text: '' }];
+    const limited = await send(webhook, [jsonResponse({})], { log });
+    expect(limited.entry.status).toBe('limited');
+    expect(limited.fetchImpl).not.toHaveBeenCalled();
+
+    const forced = await send(webhook, [jsonResponse({})], { log, force: true });
+    expect(forced.entry.status).toBe('sent');
+  });
+
+  it('skips disabled channels', async () => {
+    const onEntry = vi.fn();
+    const results = await dispatchAlert([{ ...webhook, enabled: false }], DATA, null, { log: [], onEntry, fetchImpl: vi.fn() });
+    expect(results).toEqual([]);
+    expect(onEntry).not.toHaveBeenCalled();
+  });
+
+  it('logs channels with an incomplete setup as skipped without sending', async () => {
+    const { entry, fetchImpl, onEntry } = await send({ ...telegram, target: '' }, [jsonResponse({})], { force: true });
+    expect(entry).toMatchObject({ status: 'skipped', attempts: 0, error: { key: 'validation.chatId' } });
+    expect(onEntry).toHaveBeenCalledWith(entry);
+    expect(fetchImpl).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,248 @@
+import { amountToNumber } from './amount';
+import { formatAmount, formatBs, formatPercent, formatDateTime, DEFAULT_LOCALE } from './format';
+import type { Locale } from './format';
+import { createTranslator, translateText, LANGUAGE_LOCALES } from './i18n';
+import type { Language, Text, Translate } from './i18n';
+import { errorMessage, isAbortError } from './quality';
+import { validateChannel } from './settings';
+import type { MarketData } from '../types';
+
+// --- Outbound Alert Dispatch ---
+
+export type ChannelKind = 'telegram' | 'webhook' | 'email';
+export type DeliveryStatus = 'sent' | 'failed' | 'limited' | 'skipped';
+
+export interface ChannelConfig {
+  id: string;
+  name: string;
+  kind: ChannelKind;
+  enabled: boolean;
+  url: string; // Telegram API base, webhook URL or email relay endpoint
+  token: string; // Telegram bot token, or a Bearer token for webhooks and the relay
+  target: string; // Telegram chat id or email recipient; unused for webhooks
+  template: string; // empty for the default template of the interface language
+  minIntervalMinutes: number; // per-channel rate limit
+}
+
+export interface DeliveryEntry {
+  id: string;
+  channelId: string;
+  channelName: string;
+  at: number;
+  status: DeliveryStatus;
+  attempts: number;
+  error?: Text;
+  text: string;
+}
+
+export interface DispatchOptions {
+  log: DeliveryEntry[]; // previous deliveries, used for rate limiting
+  onEntry: (entry: DeliveryEntry) => void;
+  force?: boolean; // skip rate limiting, for test messages
+  fetchImpl?: typeof fetch;
+  sleep?: (ms: number) => Promise<void>;
+  t?: Translate; // wording of the status line and email subject, Spanish by default
+  locale?: Locale;
+}
+
+interface OutboundRequest {
+  url: string;
+  body: unknown;
+  headers: Record<string, string>;
+}
+
+const STORAGE_KEY = 'hoole.deliveryLog';
+const MAX_LOG_ENTRIES = 50;
+const SEND_TIMEOUT_MS = 8000;
+const MAX_ATTEMPTS = 3;
+const BASE_RETRY_MS = 2000;
+
+export const TELEGRAM_API_URL = 'https://api.telegram.org';
+
+export const TEMPLATE_FIELDS = ['status', 'gapPct', 'gapBs', 'usdt', 'bcv', 'timestamp', 'source', 'detail'] as const;
+
+export const CHANNEL_KIND_LABELS: Record<ChannelKind, string> = {
+  telegram: 'Telegram',
+  webhook: 'Webhook',
+  email: 'Email (relay)',
+};
+
+const spanish = createTranslator('es');
+
+// Templates saved before they could be left empty still follow the interface language
+const DEFAULT_TEMPLATES = (Object.keys(LANGUAGE_LOCALES) as Language[]).map((l) => createTranslator(l)('alert.template'));
+
+const templateFor = (channel: ChannelConfig, t: Translate) =>
+  channel.template.trim() && !DEFAULT_TEMPLATES.includes(channel.template) ? channel.template : t('alert.template');
+
+export const createChannel = (kind: ChannelKind): ChannelConfig => ({
+  id: `ch-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name: CHANNEL_KIND_LABELS[kind],
+  kind,
+  enabled: true,
+  url: kind === 'telegram' ? TELEGRAM_API_URL : '',
+  token: '',
+  target: '',
+  template: '',
+  minIntervalMinutes: 5,
+});
+
+/** Fills {placeholders}; empty lines left by missing values are dropped. */
+export const renderTemplate = (template: string, data: MarketData, detail?: string | null, t: Translate = spanish, locale: Locale = DEFAULT_LOCALE) => {
+  const values: Record<(typeof TEMPLATE_FIELDS)[number], string> = {
+    status: t(`alert.status.${data.status}`),
+    gapPct: formatPercent(data.gapPct, locale),
+    gapBs: formatBs(amountToNumber(data.gapBs), locale),
+    usdt: formatAmount(data.usdt, locale),
+    bcv: formatAmount(data.bcv, locale),
+    timestamp: formatDateTime(data.timestamp, locale),
+    source: translateText(t, data.source.label),
+    detail: detail ?? '',
+  };
+  return template
+    .replace(/\{(\w+)\}/g, (match, key: string) => (key in values ? values[key as keyof typeof values] : match))
+    .split('\n')
+    .filter((line) => line.trim())
+    .join('\n');
+};
+
+const buildRequest = (channel: ChannelConfig, text: string, data: MarketData, detail: string | null | undefined, t: Translate, locale: Locale): OutboundRequest => {
+  const auth: Record<string, string> = channel.token ? { Authorization: `Bearer ${channel.token}` } : {};
+  switch (channel.kind) {
+    case 'telegram':
+      return {
+        url: `${channel.url.replace(/\/+$/, '')}/bot${channel.token}/sendMessage`,
+        body: { chat_id: channel.target, text },
+        headers: {},
+      };
+    case 'email':
+      return {
+        url: channel.url,
+        body: { to: channel.target, subject: `Hoole: ${t(`alert.status.${data.status}`)} (${formatPercent(data.gapPct, locale)})`, text },
+        headers: auth,
+      };
+    default:
+      // `text` is what Slack and most chat webhooks read; the rest is for n8n-style flows
+      return {
+        url: channel.url,
+        body: {
+          text,
+          status: data.status,
+          gapPct: data.gapPct,
+          gapBs: amountToNumber(data.gapBs),
+          bcv: amountToNumber(data.bcv),
+          usdt: amountToNumber(data.usdt),
+          timestamp: data.timestamp.toISOString(),
+          source: translateText(t, data.source.label),
+          detail: detail ?? null,
+        },
+        headers: auth,
+      };
+  }
+};
+
+class DeliveryError extends Error {
+  text: Text;
+  retryable: boolean;
+
+  constructor(text: Text, retryable: boolean) {
+    super(translateText(spanish, text));
+    this.text = text;
+    this.name = 'DeliveryError';
+    this.retryable = retryable;
+  }
+}
+
+const postJson = async (request: OutboundRequest, fetchImpl: typeof fetch) => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), SEND_TIMEOUT_MS);
+  try {
+    const response = await fetchImpl(request.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...request.headers },
+      body: JSON.stringify(request.body),
+      signal: controller.signal,
+    });
+    // Rate limits and server errors may pass; other client errors won't fix themselves
+    if (!response.ok) throw new DeliveryError(`HTTP ${response.status}`, response.status === 429 || response.status >= 500);
+  } catch (err) {
+    if (err instanceof DeliveryError) throw err;
+    if (isAbortError(err)) throw new DeliveryError({ key: 'delivery.timeout' }, true);
+    throw new DeliveryError(errorMessage(err) || { key: 'delivery.network' }, true);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+const wait = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const lastSentAt = (log: DeliveryEntry[], channelId: string) =>
+  log.reduce((latest, e) => (e.channelId === channelId && e.status === 'sent' && e.at > latest ? e.at : latest), -Infinity);
+
+const sendToChannel = async (channel: ChannelConfig, data: MarketData, detail: string | null | undefined, options: DispatchOptions): Promise<DeliveryEntry> => {
+  const { fetchImpl = fetch, sleep = wait, t = spanish, locale = DEFAULT_LOCALE } = options;
+  const text = renderTemplate(templateFor(channel, t), data, detail, t, locale);
+  const entry = (status: DeliveryStatus, attempts: number, error?: Text): DeliveryEntry => ({
+    id: `dl-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    channelId: channel.id,
+    channelName: channel.name,
+    at: Date.now(),
+    status,
+    attempts,
+    error,
+    text,
+  });
+
+  // A channel still missing its URL, token or recipient would only fail every retry
+  const invalid = validateChannel(channel);
+  if (invalid) return entry('skipped', 0, invalid);
+
+  if (!options.force && Date.now() - lastSentAt(options.log, channel.id) < channel.minIntervalMinutes * 60 * 1000) {
+    return entry('limited', 0);
+  }
+
+  const request = buildRequest(channel, text, data, detail, t, locale);
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await postJson(request, fetchImpl);
+      return entry('sent', attempt);
+    } catch (err) {
+      const failure = err instanceof DeliveryError ? err : new DeliveryError(String(err), false);
+      if (!failure.retryable || attempt >= MAX_ATTEMPTS) return entry('failed', attempt, failure.text);
+      await sleep(BASE_RETRY_MS * 2 ** (attempt - 1) * (0.8 + Math.random() * 0.4));
+    }
+  }
+};
+
+/**
+ * Sends one alert to every enabled channel in parallel. Each channel is
+ * rate limited on its own and retried with exponential backoff; channels
+ * that fail validation are skipped. Every outcome, skips included, is
+ * reported through `onEntry` as soon as it is known.
+ */
+export const dispatchAlert = (channels: ChannelConfig[], data: MarketData, detail: string | null | undefined, options: DispatchOptions) =>
+  Promise.all(channels.filter((c) => c.enabled).map(async (channel) => {
+    const result = await sendToChannel(channel, data, detail, options);
+    options.onEntry(result);
+    return result;
+  }));
+
+// --- Persistence ---
+
+export const appendDelivery = (log: DeliveryEntry[], entry: DeliveryEntry) => [entry, ...log].slice(0, MAX_LOG_ENTRIES);
+
+export const loadDeliveryLog = (): DeliveryEntry[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed: unknown = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter((e) => e && typeof e.channelId === 'string' && typeof e.at === 'number') : [];
+  } catch {
+    return [];
+  }
+};
+
+export const saveDeliveryLog = (log: DeliveryEntry[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(log));
+  } catch (e) { console.error("Delivery log storage error:", e); }
+};
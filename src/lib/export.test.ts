@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { rowFromData, sessionToCsv, sessionToJson } from './export';
+import { parseRecording } from './replay';
+import { parseMarketPayload } from './parse';
+import { createTranslator } from './i18n';
+import { amountToNumber } from './amount';
+import { TEST_SOURCE, readingForGap } from '../test/fixtures';
+import type { MarketData } from '../types';
+
+const MINUTE = 60 * 1000;
+
+const session = (label: MarketData['source']['label']) => [7, 9.5, 5.25].map((gap, i) =>
+  rowFromData({ ...readingForGap(gap, Date.parse('2026-03-01T12:00:00Z') + i * MINUTE), status: 'stable', source: { ...TEST_SOURCE, label } }));
+
+describe('session export', () => {
+  it('replays a CSV export as the same readings', () => {
+    const rows = session('VPS, respaldo "B"');
+    const csv = sessionToCsv(rows);
+    const replayed = parseRecording(csv, 'export.csv').frames.map((f) => parseMarketPayload(f.payload, new Date(f.t)));
+
+    expect(csv.split('\n')[1].endsWith(',"VPS, respaldo ""B"""')).toBe(true);
+    expect(replayed.map((r) => r.timestamp.toISOString())).toEqual(rows.map((r) => r.timestamp));
+    expect(replayed.map((r) => [amountToNumber(r.bcv), amountToNumber(r.usdt), r.gapPct])).toEqual(rows.map((r) => [r.bcv, r.usdt, r.gapPct]));
+  });
+
+  it('replays a JSON export', () => {
+    const rows = session('Test');
+    const { frames } = parseRecording(sessionToJson(rows), 'export.json');
+
+    expect(frames.map((f) => new Date(f.t).toISOString())).toEqual(rows.map((r) => r.timestamp));
+  });
+
+  it('writes the source label in the chosen language', () => {
+    const rows = session({ key: 'source.median', vars: { count: 3 } });
+
+    expect(sessionToCsv(rows).split('\n')[1]).toMatch(/,Mediana \(3 fuentes\)$/);
+    expect(JSON.parse(sessionToJson(rows, createTranslator('en'))).readings[0].source).toBe('Median (3 sources)');
+  });
+});
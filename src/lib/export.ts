@@ -0,0 +1,194 @@
+import { amountToNumber } from './amount';
+import { formatAmount, formatPercent, formatDateTime, DEFAULT_LOCALE } from './format';
+import type { Locale } from './format';
+import { createTranslator, translateText, MessageError } from './i18n';
+import type { Text, Translate } from './i18n';
+import { isAbortError } from './quality';
+import type { MarketData, MarketStatus } from '../types';
+
+// --- Session Export & Sharing ---
+
+export interface SessionRow {
+  timestamp: string; // ISO, the reading's own timestamp
+  bcv: number;
+  usdt: number;
+  gapBs: number;
+  gapPct: number;
+  status: MarketStatus;
+  source: Text;
+}
+
+export const MAX_SESSION_ROWS = 5000;
+const REVOKE_DELAY_MS = 10000;
+
+const spanish = createTranslator('es');
+
+const STATUS_LABELS: Record<MarketStatus, { label: string; color: string }> = {
+  stable: { label: 'MERCADO ESTABLE', color: '#9CA3AF' },
+  devaluation: { label: 'ALERTA ROJA', color: '#F43F5E' },
+  appreciation: { label: 'TENDENCIA VERDE', color: '#10B981' },
+};
+
+export const rowFromData = (data: MarketData): SessionRow => ({
+  timestamp: data.timestamp.toISOString(),
+  bcv: amountToNumber(data.bcv),
+  usdt: amountToNumber(data.usdt),
+  gapBs: amountToNumber(data.gapBs),
+  gapPct: Math.round(data.gapPct * 10000) / 10000,
+  status: data.status,
+  source: data.source.label,
+});
+
+const csvCell = (val: string | number) => {
+  const text = String(val);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Column names match what the demo replay loader accepts, so exports can be replayed.
+// Prices keep four decimals so "54.125" is never mistaken for grouping.
+export const sessionToCsv = (rows: SessionRow[], t: Translate = spanish) => [
+  'timestamp,bcv,usdt,gap_bs,gap_pct,status,source',
+  ...rows.map((r) => [r.timestamp, r.bcv.toFixed(4), r.usdt.toFixed(4), r.gapBs.toFixed(4), r.gapPct.toFixed(4), r.status, translateText(t, r.source)].map(csvCell).join(',')),
+].join('\n');
+
+export const sessionToJson = (rows: SessionRow[], t: Translate = spanish) =>
+  JSON.stringify({
+    app: 'hoole-gap-monitor',
+    exportedAt: new Date().toISOString(),
+    readings: rows.map((r) => ({ ...r, source: translateText(t, r.source) })),
+  }, null, 2);
+
+export const exportFilename = (ext: string, date = new Date()) =>
+  `hoole-${date.toISOString().slice(0, 16).replace(/[:T]/g, '-')}.${ext}`;
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Some browsers start the download after click() returns; revoking right away cancels it
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
+
+// --- Share card ---
+
+const CARD_SIZE = 1080;
+
+export interface ShareCardLabels {
+  gap: string;
+  status: string;
+  official: string;
+  parallel: string;
+  source: string;
+}
+
+/** Draws the current gauge and prices as a square PNG for chat apps. */
+export const renderShareCard = (
+  data: MarketData,
+  maxGap: number,
+  locale: Locale = DEFAULT_LOCALE,
+  labels?: ShareCardLabels,
+): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = CARD_SIZE;
+  canvas.height = CARD_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.reject(new MessageError('export.noCanvas'));
+
+  const status = STATUS_LABELS[data.status];
+  const text = labels ?? { gap: 'DIFERENCIAL', status: status.label, official: 'OFICIAL BCV', parallel: 'DÓLAR BINANCE', source: translateText(spanish, data.source.label) };
+  const accent = data.status === 'stable' ? '#FFD700' : status.color;
+  const font = (weight: number, size: number) => `${weight} ${size}px Inter, system-ui, sans-serif`;
+
+  const bg = ctx.createRadialGradient(CARD_SIZE / 2, 0, 0, CARD_SIZE / 2, 0, CARD_SIZE);
+  bg.addColorStop(0, '#1A1A1A');
+  bg.addColorStop(1, '#0D0D0D');
+  ctx.fillStyle = bg;
+  ctx.fillRect(0, 0, CARD_SIZE, CARD_SIZE);
+
+  // Brand
+  ctx.fillStyle = '#FFD700';
+  ctx.beginPath();
+  ctx.roundRect(80, 80, 110, 110, 28);
+  ctx.fill();
+  ctx.fillStyle = '#000000';
+  ctx.font = font(900, 80);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText('H', 135, 140);
+  ctx.textAlign = 'left';
+  ctx.fillStyle = '#FFFFFF';
+  ctx.font = font(900, 56);
+  ctx.fillText('HOOLE', 220, 120);
+  ctx.fillStyle = '#FFD700';
+  ctx.font = font(900, 26);
+  ctx.fillText('GAP MONITOR', 222, 168);
+
+  // Gauge
+  const cx = CARD_SIZE / 2;
+  const cy = 470;
+  const r = 210;
+  const share = Math.max(0, Math.min(data.gapPct / maxGap, 1));
+  ctx.lineCap = 'round';
+  ctx.strokeStyle = 'rgba(255,255,255,0.06)';
+  ctx.lineWidth = 6;
+  ctx.beginPath();
+  ctx.arc(cx, cy, r, 0, Math.PI * 2);
+  ctx.stroke();
+  ctx.strokeStyle = accent;
+  ctx.lineWidth = 32;
+  ctx.beginPath();
+  ctx.arc(cx, cy, r, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * share);
+  ctx.stroke();
+
+  ctx.textAlign = 'center';
+  ctx.fillStyle = '#6B7280';
+  ctx.font = font(900, 24);
+  ctx.fillText(text.gap.toUpperCase(), cx, cy - 90);
+  ctx.fillStyle = data.status === 'stable' ? '#FFFFFF' : accent;
+  ctx.font = font(900, 130);
+  ctx.fillText(formatPercent(data.gapPct, locale), cx, cy);
+  ctx.fillStyle = status.color;
+  ctx.font = font(900, 28);
+  ctx.fillText(text.status.toUpperCase(), cx, cy + 100);
+
+  // Prices
+  const price = (label: string, value: string, x: number) => {
+    ctx.textAlign = 'center';
+    ctx.fillStyle = '#6B7280';
+    ctx.font = font(900, 26);
+    ctx.fillText(label, x, 800);
+    ctx.fillStyle = '#FFFFFF';
+    ctx.font = font(900, 60);
+    ctx.fillText(value, x, 860);
+  };
+  price(text.parallel.toUpperCase(), formatAmount(data.usdt, locale), CARD_SIZE * 0.28);
+  price(text.official.toUpperCase(), formatAmount(data.bcv, locale), CARD_SIZE * 0.72);
+
+  ctx.fillStyle = '#4B5563';
+  ctx.font = font(800, 22);
+  ctx.fillText(`${formatDateTime(data.timestamp, locale)} · ${text.source.toUpperCase()}`, cx, 980);
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new MessageError('export.imageFailed'))), 'image/png'));
+};
+
+/**
+ * Hands the file to the system share sheet where files can be shared,
+ * otherwise downloads it. Resolves to how it was delivered.
+ */
+export const shareOrDownload = async (blob: Blob, filename: string, text: string): Promise<'shared' | 'downloaded' | 'cancelled'> => {
+  const file = new File([blob], filename, { type: blob.type });
+  if (navigator.canShare?.({ files: [file] })) {
+    try {
+      await navigator.share({ files: [file], title: 'Hoole Gap Monitor', text });
+      return 'shared';
+    } catch (err) {
+      if (isAbortError(err)) return 'cancelled';
+      console.error("Share error:", err);
+    }
+  }
+  downloadBlob(blob, filename);
+  return 'downloaded';
+};
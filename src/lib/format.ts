@@ -0,0 +1,35 @@
+import { amountToNumber } from './amount';
+import type { Amount } from './amount';
+
+// --- Display Formatting ---
+
+export type Locale = 'es-VE' | 'en-US';
+
+export const DEFAULT_LOCALE: Locale = 'es-VE';
+
+const CURRENCY_PREFIX: Record<Amount['currency'], string> = {
+  VES: 'Bs.',
+  USD: '$',
+  USDT: 'USDT',
+  EUR: '€',
+  ARS: 'AR$',
+  NGN: '₦',
+};
+
+export const formatNumber = (val: number, locale: Locale = DEFAULT_LOCALE, decimals = 2) =>
+  val.toLocaleString(locale, { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+
+export const formatAmount = (amount: Amount, locale: Locale = DEFAULT_LOCALE, decimals = 2) =>
+  `${CURRENCY_PREFIX[amount.currency]} ${formatNumber(amountToNumber(amount), locale, decimals)}`;
+
+export const formatBs = (val: number, locale: Locale = DEFAULT_LOCALE, decimals = 2) =>
+  `${CURRENCY_PREFIX.VES} ${formatNumber(val, locale, decimals)}`;
+
+export const formatPercent = (val: number, locale: Locale = DEFAULT_LOCALE, signed = false) =>
+  `${signed && val > 0 ? '+' : ''}${formatNumber(val, locale)}%`;
+
+export const formatTime = (date: Date | number, locale: Locale = DEFAULT_LOCALE) =>
+  new Date(date).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const formatDateTime = (date: Date | number, locale: Locale = DEFAULT_LOCALE) =>
+  new Date(date).toLocaleString(locale, { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' });
@@ -0,0 +1,60 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { downsample, loadSamples, pruneSamples, saveSample, summarize, RETENTION_MS } from './history';
+import type { HistorySample } from './history';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.parse('2026-03-01T12:00:00Z');
+
+const sample = (t: number, gapPct: number): HistorySample => ({ t, bcv: 50, usdt: 50 * (1 + gapPct / 100), gapBs: gapPct / 2, gapPct, status: 'stable' });
+
+describe('summarize', () => {
+  it('reports min, max, average and latest of a metric', () => {
+    const samples = [sample(1, 8), sample(2, 6), sample(3, 10), sample(4, 7)];
+    expect(summarize(samples, 'gapPct')).toEqual({ min: 6, max: 10, avg: 7.75, last: 7 });
+  });
+
+  it('skips values that are not numbers and has nothing to say without samples', () => {
+    expect(summarize([sample(1, 8), sample(2, NaN)], 'gapPct')).toEqual({ min: 8, max: 8, avg: 8, last: 8 });
+    expect(summarize([], 'bcv')).toBeNull();
+  });
+});
+
+describe('downsample', () => {
+  it('averages buckets and keeps the time and status of the last sample in each', () => {
+    const samples = [sample(1, 4), sample(2, 6), sample(3, 8), { ...sample(4, 10), status: 'devaluation' as const }];
+    expect(downsample(samples, 2)).toEqual([
+      { ...sample(2, 5), usdt: 52.5, gapBs: 2.5 },
+      { ...sample(4, 9), usdt: 54.5, gapBs: 4.5, status: 'devaluation' },
+    ]);
+    expect(downsample(samples, 10)).toBe(samples);
+  });
+});
+
+describe('sample store', () => {
+  // One database for the whole file, so start every test from an empty store,
+  // then prune at the epoch so the next save sees an old last prune
+  beforeEach(async () => {
+    await pruneSamples(Number.MAX_SAFE_INTEGER);
+    await pruneSamples(0);
+  });
+
+  it('loads only the samples inside the window', async () => {
+    await Promise.all([sample(NOW - 2 * HOUR, 7), sample(NOW - 30 * 60 * 1000, 8), sample(NOW, 9)].map(saveSample));
+    expect((await loadSamples('1h', NOW)).map((s) => s.gapPct)).toEqual([8, 9]);
+  });
+
+  it('drops samples older than the retention period', async () => {
+    await saveSample(sample(NOW - RETENTION_MS - HOUR, 6));
+    await saveSample(sample(NOW - RETENTION_MS + HOUR, 7));
+    await pruneSamples(NOW);
+    expect((await loadSamples('30d', NOW)).map((s) => s.gapPct)).toEqual([7]);
+    expect(await loadSamples('30d', NOW - HOUR)).toHaveLength(1);
+  });
+
+  it('prunes by itself once an hour of new samples has been saved', async () => {
+    await saveSample(sample(NOW - RETENTION_MS, 6));
+    await saveSample(sample(NOW + 2 * HOUR, 7));
+    expect((await loadSamples('30d', NOW)).map((s) => s.gapPct)).toEqual([7]);
+  });
+});
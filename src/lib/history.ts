@@ -0,0 +1,130 @@
+import { amountToNumber } from './amount';
+import type { MarketReading, MarketStatus } from '../types';
+
+// --- Local History Store (IndexedDB) ---
+
+export interface HistorySample {
+  t: number; // epoch ms when the reading was received
+  bcv: number;
+  usdt: number;
+  gapBs: number;
+  gapPct: number;
+  status: MarketStatus;
+}
+
+export type HistoryWindow = '1h' | '24h' | '7d' | '30d';
+export type HistoryMetric = 'bcv' | 'usdt' | 'gapPct';
+
+const HOUR = 60 * 60 * 1000;
+
+export const HISTORY_WINDOWS: Record<HistoryWindow, number> = {
+  '1h': HOUR,
+  '24h': 24 * HOUR,
+  '7d': 7 * 24 * HOUR,
+  '30d': 30 * 24 * HOUR,
+};
+
+// Samples older than the widest window are never shown, so they are dropped.
+export const RETENTION_MS = HISTORY_WINDOWS['30d'];
+const PRUNE_EVERY_MS = HOUR;
+
+const DB_NAME = 'hoole-gap-monitor';
+const DB_VERSION = 1;
+const STORE = 'samples';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let lastPrune = 0;
+
+const promisify = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        if (!req.result.objectStoreNames.contains(STORE)) {
+          req.result.createObjectStore(STORE, { keyPath: 't' });
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const sampleFromReading = (reading: MarketReading, status: MarketStatus = 'stable'): HistorySample => ({
+  t: reading.receivedAt.getTime(),
+  bcv: amountToNumber(reading.bcv),
+  usdt: amountToNumber(reading.usdt),
+  gapBs: amountToNumber(reading.gapBs),
+  gapPct: reading.gapPct,
+  status,
+});
+
+export const pruneSamples = async (now = Date.now()) => {
+  const db = await openDb();
+  const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+  await promisify(store.delete(IDBKeyRange.upperBound(now - RETENTION_MS, true)));
+  lastPrune = now;
+};
+
+export const saveSample = async (sample: HistorySample) => {
+  const db = await openDb();
+  const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+  await promisify(store.put(sample));
+  if (sample.t - lastPrune > PRUNE_EVERY_MS) await pruneSamples(sample.t);
+};
+
+export const loadSamples = async (range: HistoryWindow, now = Date.now()) => {
+  const db = await openDb();
+  const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+  return promisify(store.getAll(IDBKeyRange.lowerBound(now - HISTORY_WINDOWS[range]))) as Promise<HistorySample[]>;
+};
+
+// --- Aggregation helpers ---
+
+export interface HistoryStats {
+  min: number;
+  max: number;
+  avg: number;
+  last: number;
+}
+
+export const summarize = (samples: HistorySample[], metric: HistoryMetric): HistoryStats | null => {
+  const values = samples.map((s) => s[metric]).filter(Number.isFinite);
+  if (values.length === 0) return null;
+  return {
+    min: values.reduce((acc, v) => Math.min(acc, v), Infinity),
+    max: values.reduce((acc, v) => Math.max(acc, v), -Infinity),
+    avg: values.reduce((acc, v) => acc + v, 0) / values.length,
+    last: values[values.length - 1],
+  };
+};
+
+// Averages consecutive samples into buckets so long windows stay cheap to draw.
+export const downsample = (samples: HistorySample[], maxPoints: number): HistorySample[] => {
+  if (samples.length <= maxPoints) return samples;
+  const size = Math.ceil(samples.length / maxPoints);
+  const out: HistorySample[] = [];
+  for (let i = 0; i < samples.length; i += size) {
+    const bucket = samples.slice(i, i + size);
+    const avg = (key: HistoryMetric | 'gapBs') => bucket.reduce((acc, s) => acc + s[key], 0) / bucket.length;
+    out.push({
+      t: bucket[bucket.length - 1].t,
+      bcv: avg('bcv'),
+      usdt: avg('usdt'),
+      gapBs: avg('gapBs'),
+      gapPct: avg('gapPct'),
+      status: bucket[bucket.length - 1].status,
+    });
+  }
+  return out;
+};
@@ -0,0 +1,606 @@
+import type { Locale } from './format';
+import { errorMessage } from './quality';
+
+// --- Localisation ---
+// Interface, notification and alert text. Lib modules return a `Message` (a key and
+// its values) or throw a `MessageError` for anything the interface shows; the Spanish
+// `message` of those errors is only for the console.
+
+export type Language = 'es' | 'en';
+
+export const LANGUAGE_LOCALES: Record<Language, Locale> = {
+  es: 'es-VE',
+  en: 'en-US',
+};
+
+export const LANGUAGE_LABELS: Record<Language, string> = {
+  es: 'Español',
+  en: 'English',
+};
+
+const es = {
+  // Status and connection
+  'status.stable': 'MERCADO ESTABLE',
+  'status.devaluation': 'ALERTA ROJA',
+  'status.appreciation': 'TENDENCIA VERDE',
+  'connection.connecting': 'CONECTANDO',
+  'connection.live': 'EN VIVO',
+  'connection.reconnecting': 'RECONECTANDO',
+  'connection.polling': 'CONSULTA 30S',
+  'connection.stale': 'SIN DATOS RECIENTES',
+  'connection.demo': 'DEMO',
+  'connection.offline': 'SIN CONEXIÓN',
+  'stale.source': 'LA FUENTE REPORTA {time} (HACE {minutes} MIN)',
+  'stale.repeated': 'MISMA LECTURA DESDE {time}',
+  'stale.since': 'DESACTUALIZADO DESDE {time}',
+
+  // Welcome overlay
+  'intro.title': 'Hoole Engine',
+  'intro.subtitle': 'Sincroniza el monitor con el mercado de Venezuela en tiempo real.',
+  'intro.continueDemo': 'CONTINUAR DEMO',
+  'intro.connect': 'CONECTAR LOCAL',
+  'intro.configure': 'CONFIGURAR VPS',
+  'intro.configureTitle': 'Configurar VPS',
+  'intro.webhook': 'Webhook URL de n8n',
+  'intro.save': 'GUARDAR Y CONECTAR',
+  'intro.cancel': 'Cancelar',
+  'intro.exitDemo': 'Salir del Modo Demostración',
+  'intro.demo': 'Modo Demostración',
+
+  // Live view
+  'banner.devaluation': '¡ALERTA DE DEVALUACIÓN!',
+  'banner.appreciation': '¡RECUPERACIÓN DEL BOLÍVAR!',
+  'banner.pairDevaluation': '¡ALERTA DE DEVALUACIÓN · {pair}!',
+  'banner.pairAppreciation': '¡RECUPERACIÓN · {pair}!',
+  'live.gap': 'DIFERENCIAL',
+  'live.connecting': 'ESTABLECIENDO CONEXIÓN SEGURA...',
+  'live.retry': 'Reintentar',
+  'live.receivedAt': 'RECIBIDO {time} (HORA LOCAL)',
+  'live.noResponse': '{count} SIN RESPUESTA',
+  'live.disagree': 'FUENTES EN DESACUERDO ({spread}): {quotes}',
+  'live.inconsistent': 'DATOS INCONSISTENTES: {warnings}',
+  'live.credits': 'Diseñado por Jairokov',
+  'live.testMessage': 'Mensaje de prueba',
+  'pair.primary.official': 'Oficial BCV',
+  'pair.primary.parallel': 'Dólar Binance',
+
+  // Navigation
+  'nav.tagline': 'GAP MONITOR',
+  'nav.profile': 'Perfil activo',
+  'nav.settings': 'Configuración',
+  'nav.rules': 'Reglas de alerta',
+  'nav.sound': 'Sonido',
+  'nav.live': 'Monitor',
+  'nav.pairs': 'Pares',
+  'nav.historyBcv': 'Historial BCV',
+  'nav.historyUsdt': 'Historial USDT',
+  'nav.calculator': 'Calculadora',
+
+  // Pair list
+  'pairList.title': 'Pares',
+  'pairList.waiting': 'ESPERANDO LECTURA',
+  'pairList.empty': 'Agrega pares en Configuración para seguir otros mercados',
+
+  // Health
+  'health.title': 'Salud de datos',
+  'health.ok': 'OK',
+  'health.degraded': 'DEGRADADO',
+  'health.failing': 'FALLANDO',
+  'health.pending': 'Salto atípico en espera de confirmación: {metric} {change} ({value})',
+  'health.consecutive': 'Fallos seguidos',
+  'health.lastSuccess': 'Último éxito',
+  'health.nextPoll': 'Próximo intento',
+  'health.noFailures': 'Sin fallos registrados',
+  'health.message.timeout': 'TIEMPO DE ESPERA AGOTADO (Timeout)',
+  'health.message.network': 'ERROR DE RED O CORS (Habilita CORS en n8n)',
+  'health.message.outlier': '{metric} {change} descartado',
+  'health.message.http': 'Error HTTP: {status}',
+  'health.message.noSources': 'NO HAY FUENTES DE DATOS CONFIGURADAS',
+  'health.message.other': 'ERROR DE CONEXIÓN',
+  'issue.required': 'campo requerido',
+  'issue.type': 'tipo no válido',
+  'issue.number': 'número no válido',
+  'issue.percent': 'porcentaje no válido',
+  'issue.positive': 'debe ser mayor que cero',
+  'issue.object': 'objeto requerido',
+  'issue.price': 'precio no válido',
+  'issue.future': 'fecha en el futuro',
+  'issue.mismatch': 'no coincide con los precios',
+  'failure.timeout': 'Timeout',
+  'failure.network': 'Red / CORS',
+  'failure.http': 'HTTP',
+  'failure.schema': 'Formato',
+  'failure.outlier': 'Atípico',
+  'failure.other': 'Error',
+
+  // Export
+  'export.share': 'Compartir',
+  'export.shareText': '{pair} · Brecha {gap} · {parallel} · {official}',
+  'export.downloaded': 'Imagen descargada',
+  'export.shareFailed': 'No se pudo compartir',
+  'export.sessionCount': '{count} lecturas en esta sesión',
+  'export.noCanvas': 'El navegador no permite generar imágenes',
+  'export.imageFailed': 'No se pudo generar la imagen',
+
+  // Replay
+  'replay.play': 'Reproducir',
+  'replay.pause': 'Pausar',
+  'replay.position': 'Posición',
+  'replay.startGap': 'Brecha inicial (%)',
+  'replay.volatility': 'Volatilidad (pts)',
+  'replay.generate': 'Generar',
+  'replay.recording': 'Grabación',
+  'replay.synthetic': 'Aleatorio #{seed}',
+  'replay.noRows': 'El CSV no tiene filas de datos',
+  'replay.missingColumn': 'Falta la columna {column}',
+  'replay.rowDate': 'Fila {row}: fecha no válida',
+  'replay.rowField': 'Fila {row}: {field} ({issue})',
+  'replay.notList': 'El JSON debe ser una lista de lecturas',
+  'replay.empty': 'La grabación está vacía',
+
+  // History
+  'history.metric.gapPct': 'Brecha %',
+  'history.metric.bcv': 'BCV',
+  'history.metric.usdt': 'USDT',
+  'history.last': 'Último',
+  'history.min': 'Mínimo',
+  'history.avg': 'Promedio',
+  'history.max': 'Máximo',
+  'history.empty': 'SIN LECTURAS EN ESTE PERIODO',
+  'history.unavailable': 'HISTORIAL NO DISPONIBLE EN ESTE NAVEGADOR',
+  'history.count': '{count} lecturas guardadas',
+
+  // Calculator
+  'calculator.title': 'Calculadora',
+  'calculator.amount': 'Monto',
+  'calculator.save': 'Guardar monto',
+  'calculator.remove': 'Eliminar monto',
+  'calculator.invalid': 'Monto no válido',
+  'calculator.waiting': 'Esperando la primera lectura...',
+  'calculator.parallel': 'Paralelo USDT',
+  'calculator.gain': 'Ganancia por la brecha',
+  'calculator.loss': 'Pérdida por la brecha',
+  'calculator.readingAt': 'Lectura de las {time}',
+  'calculator.receivedAt': 'Recibida a las {time} (hora local)',
+  'calculator.stale': 'Desactualizada',
+  'calculator.saved': 'Montos frecuentes',
+  'currency.USD': 'Dólares',
+  'currency.USDT': 'USDT',
+  'currency.VES': 'Bolívares',
+
+  // Rules
+  'rules.title': 'Reglas de Alerta',
+  'rules.reset': 'Restaurar',
+  'rules.active': 'Activa',
+  'rules.remove': 'Eliminar regla',
+  'rules.kind': 'Tipo',
+  'rules.kind.threshold': 'Nivel',
+  'rules.kind.change': 'Variación',
+  'rules.metric': 'Métrica',
+  'rules.metric.gapPct': 'Brecha %',
+  'rules.metric.gapBs': 'Brecha Bs.',
+  'rules.metric.bcv': 'Precio BCV',
+  'rules.metric.usdt': 'Precio USDT',
+  'rules.comparator': 'Condición',
+  'rules.comparator.above': 'Mayor que',
+  'rules.comparator.below': 'Menor que',
+  'rules.value': 'Valor ({unit})',
+  'rules.window': 'Ventana (min)',
+  'rules.hysteresis': 'Histéresis ({unit})',
+  'rules.cooldown': 'Enfriamiento (min)',
+  'rules.status': 'Dispara',
+  'rules.status.devaluation': 'Devaluación',
+  'rules.status.appreciation': 'Recuperación',
+  'rules.add': 'Agregar Regla',
+  'rules.note': 'La primera regla activa define el estado',
+
+  // Settings
+  'settings.profiles': 'Perfiles',
+  'settings.activate': 'Activar perfil',
+  'settings.duplicate': 'Duplicar perfil',
+  'settings.remove': 'Eliminar perfil',
+  'settings.add': 'Agregar Perfil',
+  'settings.newProfile': 'Nuevo perfil',
+  'settings.copyName': '{name} (copia)',
+  'settings.demo': 'Demo',
+  'settings.muted': 'Silencio',
+  'settings.language': 'Idioma',
+  'settings.export': 'Exportar',
+  'settings.import': 'Importar',
+  'settings.overrides': 'El enlace actual define: {fields} (no se guarda)',
+  'settings.invalidJson': 'El archivo no es JSON válido',
+  'settings.notHoole': 'El archivo no es una configuración de Hoole',
+  'settings.noProfiles': 'La configuración no contiene perfiles válidos',
+
+  // Sources
+  'sources.title': 'Fuentes de Datos',
+  'sources.strategy.failover': 'Principal + Respaldo',
+  'sources.strategy.aggregate': 'Mediana',
+  'sources.strategyNote.failover': 'Solo se consulta una fuente a la vez, así que no se comparan entre sí ni se aplica la tolerancia',
+  'sources.strategyNote.aggregate': 'Se consultan todas a la vez y se avisa si difieren más que la tolerancia',
+  'sources.tolerance': 'Tolerancia entre fuentes (%)',
+  'sources.outlier': 'Salto atípico (%)',
+  'sources.staleAfter': 'Desactualizado tras (min)',
+  'sources.zeroDisables': 'Salto o desactualizado en 0 desactiva el control',
+  'sources.stream': 'Actualización en vivo',
+  'sources.streamUrl': 'URL del stream',
+  'sources.moveUp': 'Subir prioridad',
+  'sources.moveDown': 'Bajar prioridad',
+  'sources.remove': 'Eliminar fuente',
+  'sources.path': 'Ruta {key}',
+  'sources.optional': '(opcional)',
+  'provider.n8n': 'Webhook n8n',
+  'provider.json': 'JSON genérico',
+  'provider.static': 'Archivo estático',
+  'stream.off': 'Solo consulta',
+  'stream.sse': 'Server-Sent Events',
+  'stream.ws': 'WebSocket',
+  'source.median': 'Mediana ({count} fuentes)',
+  'source.stream': 'Stream {kind}',
+  'source.demo': 'Demo · {name}',
+
+  // Validation
+  'validation.urlRequired': 'URL requerida',
+  'validation.urlInvalid': 'URL no válida',
+  'validation.protocol': 'Debe usar {protocols}',
+  'validation.host': 'Falta el servidor',
+  'validation.botToken': 'Falta el token del bot',
+  'validation.chatId': 'Falta el chat id',
+  'validation.email': 'Correo no válido',
+  'validation.name': 'Falta el nombre',
+  'validation.thresholds': 'El umbral bajo debe ser menor que el alto',
+
+  // Pairs
+  'pairs.title': 'Pares de Brecha',
+  'pairs.remove': 'Eliminar par',
+  'pairs.base': 'Moneda base',
+  'pairs.currency': 'Cotizada en',
+  'pairs.officialLabel': 'Nombre oficial',
+  'pairs.parallelLabel': 'Nombre paralelo',
+  'pairs.path': 'Ruta del precio',
+  'pairs.numberFormat': 'Formato',
+  'pairs.high': 'Alerta sobre (%)',
+  'pairs.low': 'Recuperación bajo (%)',
+  'pairs.add': 'Agregar Par',
+  'pairs.note': 'Los pares se consultan cada 30s y comparten los controles de calidad del perfil',
+
+  // Channels
+  'channels.title': 'Canales de Alerta',
+  'channels.test': 'Enviar prueba',
+  'channels.remove': 'Eliminar canal',
+  'channels.url.telegram': 'API de Telegram',
+  'channels.url.webhook': 'URL del webhook',
+  'channels.url.email': 'URL del relay',
+  'channels.target.telegram': 'Chat id',
+  'channels.target.email': 'Destinatario',
+  'channels.botToken': 'Token del bot',
+  'channels.token': 'Token (opcional)',
+  'channels.minInterval': 'Intervalo mínimo (min)',
+  'channels.template': 'Plantilla',
+  'channels.tokensExported': 'Los tokens se incluyen al exportar la configuración',
+  'channels.log': 'Registro de envíos',
+  'channels.attempts': '{count} intentos',
+  'delivery.sent': 'Enviado',
+  'delivery.failed': 'Falló',
+  'delivery.limited': 'Limitado',
+  'delivery.skipped': 'Omitido',
+  'delivery.timeout': 'Tiempo de espera agotado',
+  'delivery.network': 'Error de red',
+
+  // Notifications and outbound alerts
+  'notify.title.stable': 'Mercado estable',
+  'notify.title.devaluation': '¡ALERTA DE DEVALUACIÓN!',
+  'notify.title.appreciation': '¡RECUPERACIÓN DEL BOLÍVAR!',
+  'notify.body': 'Brecha {gap} · {parallel} {parallelPrice} · {official} {officialPrice}',
+  'alert.status.stable': 'Mercado estable',
+  'alert.status.devaluation': 'Alerta de devaluación',
+  'alert.status.appreciation': 'Recuperación del bolívar',
+  'alert.template': 'HOOLE · {status}\nBrecha {gapPct} ({gapBs})\nUSDT {usdt} · BCV {bcv}\n{detail}\n{timestamp}',
+};
+
+export type MessageKey = keyof typeof es;
+
+const en: Record<MessageKey, string> = {
+  'status.stable': 'STABLE MARKET',
+  'status.devaluation': 'RED ALERT',
+  'status.appreciation': 'GREEN TREND',
+  'connection.connecting': 'CONNECTING',
+  'connection.live': 'LIVE',
+  'connection.reconnecting': 'RECONNECTING',
+  'connection.polling': 'POLLING 30S',
+  'connection.stale': 'NO RECENT DATA',
+  'connection.demo': 'DEMO',
+  'connection.offline': 'OFFLINE',
+  'stale.source': 'SOURCE REPORTS {time} ({minutes} MIN AGO)',
+  'stale.repeated': 'SAME READING SINCE {time}',
+  'stale.since': 'OUTDATED SINCE {time}',
+
+  'intro.title': 'Hoole Engine',
+  'intro.subtitle': 'Sync the monitor with the Venezuelan market in real time.',
+  'intro.continueDemo': 'CONTINUE DEMO',
+  'intro.connect': 'CONNECT LOCAL',
+  'intro.configure': 'SET UP VPS',
+  'intro.configureTitle': 'Set up VPS',
+  'intro.webhook': 'n8n webhook URL',
+  'intro.save': 'SAVE AND CONNECT',
+  'intro.cancel': 'Cancel',
+  'intro.exitDemo': 'Leave Demo Mode',
+  'intro.demo': 'Demo Mode',
+
+  'banner.devaluation': 'DEVALUATION ALERT!',
+  'banner.appreciation': 'BOLÍVAR RECOVERY!',
+  'banner.pairDevaluation': 'DEVALUATION ALERT · {pair}!',
+  'banner.pairAppreciation': 'RECOVERY · {pair}!',
+  'live.gap': 'GAP',
+  'live.connecting': 'ESTABLISHING SECURE CONNECTION...',
+  'live.retry': 'Retry',
+  'live.receivedAt': 'RECEIVED {time} (LOCAL TIME)',
+  'live.noResponse': '{count} NOT RESPONDING',
+  'live.disagree': 'SOURCES DISAGREE ({spread}): {quotes}',
+  'live.inconsistent': 'INCONSISTENT DATA: {warnings}',
+  'live.credits': 'Designed by Jairokov',
+  'live.testMessage': 'Test message',
+  'pair.primary.official': 'Official BCV',
+  'pair.primary.parallel': 'Binance Dollar',
+
+  'nav.tagline': 'GAP MONITOR',
+  'nav.profile': 'Active profile',
+  'nav.settings': 'Settings',
+  'nav.rules': 'Alert rules',
+  'nav.sound': 'Sound',
+  'nav.live': 'Monitor',
+  'nav.pairs': 'Pairs',
+  'nav.historyBcv': 'BCV history',
+  'nav.historyUsdt': 'USDT history',
+  'nav.calculator': 'Calculator',
+
+  'pairList.title': 'Pairs',
+  'pairList.waiting': 'WAITING FOR READING',
+  'pairList.empty': 'Add pairs in Settings to track other markets',
+
+  'health.title': 'Data health',
+  'health.ok': 'OK',
+  'health.degraded': 'DEGRADED',
+  'health.failing': 'FAILING',
+  'health.pending': 'Outlier jump awaiting confirmation: {metric} {change} ({value})',
+  'health.consecutive': 'Failures in a row',
+  'health.lastSuccess': 'Last success',
+  'health.nextPoll': 'Next attempt',
+  'health.noFailures': 'No failures recorded',
+  'health.message.timeout': 'REQUEST TIMED OUT',
+  'health.message.network': 'NETWORK OR CORS ERROR (Enable CORS in n8n)',
+  'health.message.outlier': '{metric} {change} dropped',
+  'health.message.http': 'HTTP error: {status}',
+  'health.message.noSources': 'NO DATA SOURCES CONFIGURED',
+  'health.message.other': 'CONNECTION ERROR',
+  'issue.required': 'required field',
+  'issue.type': 'invalid type',
+  'issue.number': 'invalid number',
+  'issue.percent': 'invalid percentage',
+  'issue.positive': 'must be greater than zero',
+  'issue.object': 'object required',
+  'issue.price': 'invalid price',
+  'issue.future': 'date in the future',
+  'issue.mismatch': 'does not match the prices',
+  'failure.timeout': 'Timeout',
+  'failure.network': 'Network / CORS',
+  'failure.http': 'HTTP',
+  'failure.schema': 'Format',
+  'failure.outlier': 'Outlier',
+  'failure.other': 'Error',
+
+  'export.share': 'Share',
+  'export.shareText': '{pair} · Gap {gap} · {parallel} · {official}',
+  'export.downloaded': 'Image downloaded',
+  'export.shareFailed': 'Could not share',
+  'export.sessionCount': '{count} readings this session',
+  'export.noCanvas': 'This browser cannot create images',
+  'export.imageFailed': 'Could not create the image',
+
+  'replay.play': 'Play',
+  'replay.pause': 'Pause',
+  'replay.position': 'Position',
+  'replay.startGap': 'Starting gap (%)',
+  'replay.volatility': 'Volatility (pts)',
+  'replay.generate': 'Generate',
+  'replay.recording': 'Recording',
+  'replay.synthetic': 'Random #{seed}',
+  'replay.noRows': 'The CSV has no data rows',
+  'replay.missingColumn': 'Missing column {column}',
+  'replay.rowDate': 'Row {row}: invalid date',
+  'replay.rowField': 'Row {row}: {field} ({issue})',
+  'replay.notList': 'The JSON must be a list of readings',
+  'replay.empty': 'The recording is empty',
+
+  'history.metric.gapPct': 'Gap %',
+  'history.metric.bcv': 'BCV',
+  'history.metric.usdt': 'USDT',
+  'history.last': 'Latest',
+  'history.min': 'Minimum',
+  'history.avg': 'Average',
+  'history.max': 'Maximum',
+  'history.empty': 'NO READINGS IN THIS PERIOD',
+  'history.unavailable': 'HISTORY NOT AVAILABLE IN THIS BROWSER',
+  'history.count': '{count} readings stored',
+
+  'calculator.title': 'Calculator',
+  'calculator.amount': 'Amount',
+  'calculator.save': 'Save amount',
+  'calculator.remove': 'Remove amount',
+  'calculator.invalid': 'Invalid amount',
+  'calculator.waiting': 'Waiting for the first reading...',
+  'calculator.parallel': 'Parallel USDT',
+  'calculator.gain': 'Gain from the gap',
+  'calculator.loss': 'Loss from the gap',
+  'calculator.readingAt': 'Reading at {time}',
+  'calculator.receivedAt': 'Received at {time} (local time)',
+  'calculator.stale': 'Outdated',
+  'calculator.saved': 'Frequent amounts',
+  'currency.USD': 'Dollars',
+  'currency.USDT': 'USDT',
+  'currency.VES': 'Bolívars',
+
+  'rules.title': 'Alert Rules',
+  'rules.reset': 'Reset',
+  'rules.active': 'Active',
+  'rules.remove': 'Remove rule',
+  'rules.kind': 'Type',
+  'rules.kind.threshold': 'Level',
+  'rules.kind.change': 'Change',
+  'rules.metric': 'Metric',
+  'rules.metric.gapPct': 'Gap %',
+  'rules.metric.gapBs': 'Gap Bs.',
+  'rules.metric.bcv': 'BCV price',
+  'rules.metric.usdt': 'USDT price',
+  'rules.comparator': 'Condition',
+  'rules.comparator.above': 'Greater than',
+  'rules.comparator.below': 'Less than',
+  'rules.value': 'Value ({unit})',
+  'rules.window': 'Window (min)',
+  'rules.hysteresis': 'Hysteresis ({unit})',
+  'rules.cooldown': 'Cooldown (min)',
+  'rules.status': 'Triggers',
+  'rules.status.devaluation': 'Devaluation',
+  'rules.status.appreciation': 'Recovery',
+  'rules.add': 'Add Rule',
+  'rules.note': 'The first active rule sets the status',
+
+  'settings.profiles': 'Profiles',
+  'settings.activate': 'Activate profile',
+  'settings.duplicate': 'Duplicate profile',
+  'settings.remove': 'Remove profile',
+  'settings.add': 'Add Profile',
+  'settings.newProfile': 'New profile',
+  'settings.copyName': '{name} (copy)',
+  'settings.demo': 'Demo',
+  'settings.muted': 'Mute',
+  'settings.language': 'Language',
+  'settings.export': 'Export',
+  'settings.import': 'Import',
+  'settings.overrides': 'The current link sets: {fields} (not saved)',
+  'settings.invalidJson': 'The file is not valid JSON',
+  'settings.notHoole': 'The file is not a Hoole configuration',
+  'settings.noProfiles': 'The configuration has no valid profiles',
+
+  'sources.title': 'Data Sources',
+  'sources.strategy.failover': 'Primary + Fallback',
+  'sources.strategy.aggregate': 'Median',
+  'sources.strategyNote.failover': 'Only one source is read at a time, so sources are never cross-checked and the tolerance does not apply',
+  'sources.strategyNote.aggregate': 'All sources are read at once and flagged when they differ by more than the tolerance',
+  'sources.tolerance': 'Tolerance between sources (%)',
+  'sources.outlier': 'Outlier jump (%)',
+  'sources.staleAfter': 'Outdated after (min)',
+  'sources.zeroDisables': 'Jump or outdated set to 0 turns the check off',
+  'sources.stream': 'Live updates',
+  'sources.streamUrl': 'Stream URL',
+  'sources.moveUp': 'Raise priority',
+  'sources.moveDown': 'Lower priority',
+  'sources.remove': 'Remove source',
+  'sources.path': '{key} path',
+  'sources.optional': '(optional)',
+  'provider.n8n': 'n8n webhook',
+  'provider.json': 'Generic JSON',
+  'provider.static': 'Static file',
+  'stream.off': 'Polling only',
+  'stream.sse': 'Server-Sent Events',
+  'stream.ws': 'WebSocket',
+  'source.median': 'Median ({count} sources)',
+  'source.stream': 'Stream {kind}',
+  'source.demo': 'Demo · {name}',
+
+  'validation.urlRequired': 'URL required',
+  'validation.urlInvalid': 'Invalid URL',
+  'validation.protocol': 'Must use {protocols}',
+  'validation.host': 'Missing host',
+  'validation.botToken': 'Missing bot token',
+  'validation.chatId': 'Missing chat id',
+  'validation.email': 'Invalid email',
+  'validation.name': 'Missing name',
+  'validation.thresholds': 'The low threshold must be below the high one',
+
+  'pairs.title': 'Gap Pairs',
+  'pairs.remove': 'Remove pair',
+  'pairs.base': 'Base currency',
+  'pairs.currency': 'Priced in',
+  'pairs.officialLabel': 'Official name',
+  'pairs.parallelLabel': 'Parallel name',
+  'pairs.path': 'Price path',
+  'pairs.numberFormat': 'Format',
+  'pairs.high': 'Alert above (%)',
+  'pairs.low': 'Recovery below (%)',
+  'pairs.add': 'Add Pair',
+  'pairs.note': 'Pairs are polled every 30s and share the profile quality checks',
+
+  'channels.title': 'Alert Channels',
+  'channels.test': 'Send test',
+  'channels.remove': 'Remove channel',
+  'channels.url.telegram': 'Telegram API',
+  'channels.url.webhook': 'Webhook URL',
+  'channels.url.email': 'Relay URL',
+  'channels.target.telegram': 'Chat id',
+  'channels.target.email': 'Recipient',
+  'channels.botToken': 'Bot token',
+  'channels.token': 'Token (optional)',
+  'channels.minInterval': 'Minimum interval (min)',
+  'channels.template': 'Template',
+  'channels.tokensExported': 'Tokens are included when exporting the settings',
+  'channels.log': 'Delivery log',
+  'channels.attempts': '{count} attempts',
+  'delivery.sent': 'Sent',
+  'delivery.failed': 'Failed',
+  'delivery.limited': 'Rate limited',
+  'delivery.skipped': 'Skipped',
+  'delivery.timeout': 'Request timed out',
+  'delivery.network': 'Network error',
+
+  'notify.title.stable': 'Stable market',
+  'notify.title.devaluation': 'DEVALUATION ALERT!',
+  'notify.title.appreciation': 'BOLÍVAR RECOVERY!',
+  'notify.body': 'Gap {gap} · {parallel} {parallelPrice} · {official} {officialPrice}',
+  'alert.status.stable': 'Stable market',
+  'alert.status.devaluation': 'Devaluation alert',
+  'alert.status.appreciation': 'Bolívar recovery',
+  'alert.template': 'HOOLE · {status}\nGap {gapPct} ({gapBs})\nUSDT {usdt} · BCV {bcv}\n{detail}\n{timestamp}',
+};
+
+const MESSAGES: Record<Language, Record<MessageKey, string>> = { es, en };
+
+export type Translate = (key: MessageKey, vars?: Record<string, string | number>) => string;
+
+/** Looks up a message and fills its {placeholders}; unknown placeholders are left as they are. */
+export const createTranslator = (language: Language): Translate => (key, vars) =>
+  MESSAGES[language][key].replace(/\{(\w+)\}/g, (match, name: string) => (vars && name in vars ? String(vars[name]) : match));
+
+/** Text for the interface to word; values may be messages themselves. */
+export interface Message {
+  key: MessageKey;
+  vars?: Record<string, string | number | Message>;
+}
+
+// User-given names (sources, pairs, recordings) stay plain strings
+export type Text = string | Message;
+
+export const translateText = (t: Translate, text: Text): string => {
+  if (typeof text === 'string') return text;
+  const vars = text.vars && Object.fromEntries(Object.entries(text.vars)
+    .map(([name, val]) => [name, typeof val === 'object' ? translateText(t, val) : val]));
+  return t(text.key, vars);
+};
+
+const spanish = createTranslator('es');
+
+/** An error the interface can word; `message` holds the Spanish text for the console. */
+export class MessageError extends Error {
+  text: Message;
+
+  constructor(key: MessageKey, vars?: Message['vars']) {
+    const text = { key, vars };
+    super(translateText(spanish, text));
+    this.name = 'MessageError';
+    this.text = text;
+  }
+}
+
+/** What to show for a caught error: its message when it has one, else its raw text. */
+export const errorText = (err: unknown): Text | null =>
+  err instanceof MessageError ? err.text : errorMessage(err) || null;
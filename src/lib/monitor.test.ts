@@ -0,0 +1,167 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createMonitor } from './monitor';
+import type { MonitorConfig } from './monitor';
+import { DEFAULT_RULES } from './alertRules';
+import { DEFAULT_SOURCES } from './providers';
+import { soundForStatus } from './sound';
+import type { ReplayScenario } from './replay';
+import type { MarketData } from '../types';
+import { TEST_SOURCE, abortError, jsonResponse, mockFetch, payloadForGap, readingForGap } from '../test/fixtures';
+
+const MINUTE = 60 * 1000;
+
+const setup = (overrides: Partial<MonitorConfig> = {}, cached: MarketData | null = null) => {
+  const config: MonitorConfig = {
+    rules: DEFAULT_RULES,
+    sources: { ...DEFAULT_SOURCES, providers: [{ ...DEFAULT_SOURCES.providers[0], url: 'http://vps.test/webhook' }] },
+    muted: false,
+    ...overrides,
+  };
+  const playSound = vi.fn();
+  const onTransition = vi.fn();
+  const persistReading = vi.fn();
+  const monitor = createMonitor({
+    getConfig: () => config,
+    onTransition,
+    playSound,
+    persistReading,
+    loadRecent: async () => [],
+    loadCached: () => cached,
+  });
+  return { monitor, config, playSound, onTransition, persistReading };
+};
+
+// One reading a minute, as the live feed would deliver them
+const feed = (monitor: ReturnType<typeof setup>['monitor'], gaps: number[]) =>
+  gaps.forEach((gap, i) => monitor.ingest(readingForGap(gap, i * MINUTE), TEST_SOURCE));
+
+describe('soundForStatus', () => {
+  it('only has a cue for entering an alert', () => {
+    expect(soundForStatus('devaluation', 'stable')).toBe('up');
+    expect(soundForStatus('appreciation', null)).toBe('down');
+    expect(soundForStatus('stable', 'devaluation')).toBeNull();
+    expect(soundForStatus('devaluation', 'devaluation')).toBeNull();
+  });
+});
+
+describe('status changes', () => {
+  it('plays a sound once per change into an alert', () => {
+    const { monitor, playSound } = setup();
+    feed(monitor, [7, 9.5, 9.6, 8, 5.5, 5.4]);
+    expect(playSound.mock.calls).toEqual([['up'], ['down']]);
+    expect(monitor.getState().data?.status).toBe('appreciation');
+  });
+
+  it('stays silent when muted but still reports the transition', () => {
+    const { monitor, playSound, onTransition } = setup({ muted: true });
+    feed(monitor, [9.5]);
+    expect(playSound).not.toHaveBeenCalled();
+    expect(onTransition).toHaveBeenCalledOnce();
+  });
+
+  it('does not announce starting up in a stable market', () => {
+    const { monitor, onTransition } = setup();
+    feed(monitor, [7, 7.2]);
+    expect(onTransition).not.toHaveBeenCalled();
+    feed(monitor, [9.5]);
+    expect(onTransition).toHaveBeenCalledWith(expect.objectContaining({ status: 'devaluation' }), expect.objectContaining({ rule: expect.objectContaining({ name: 'Brecha alta' }) }), true);
+  });
+
+  it('reacts to rule edits without a restart', () => {
+    const { monitor, config } = setup();
+    feed(monitor, [9.5]);
+    config.rules = DEFAULT_RULES.map((r) => ({ ...r, value: r.status === 'devaluation' ? 12 : r.value }));
+    monitor.ingest(readingForGap(9.5, 10 * MINUTE), TEST_SOURCE);
+    expect(monitor.getState().data?.status).toBe('stable');
+  });
+
+  it('keeps a held outlier off the screen and out of the rules', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { monitor, playSound } = setup();
+    feed(monitor, [7, 60]);
+    expect(monitor.getState().data?.gapPct).toBeCloseTo(7);
+    expect(monitor.getState().health.pending).not.toBeNull();
+    expect(playSound).not.toHaveBeenCalled();
+  });
+});
+
+describe('refresh', () => {
+  it('ingests a fetched reading and records it', async () => {
+    mockFetch(jsonResponse(payloadForGap(7.5)));
+    const { monitor, persistReading } = setup();
+    await expect(monitor.refresh()).resolves.toBe(true);
+    const state = monitor.getState();
+    expect(state.data?.gapPct).toBeCloseTo(7.5);
+    expect(state).toMatchObject({ isFresh: true, error: null });
+    expect(state.session).toHaveLength(1);
+    expect(persistReading).toHaveBeenCalledOnce();
+  });
+
+  it.each([
+    ['a timeout', abortError(), 'TIEMPO DE ESPERA AGOTADO (Timeout)'],
+    ['a CORS block', new TypeError('Failed to fetch'), 'ERROR DE RED O CORS (Habilita CORS en n8n)'],
+    ['an HTTP error', jsonResponse({}, 503), 'Error HTTP: 503'],
+  ])('shows %s and counts the failure', async (_, answer, message) => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockFetch(answer);
+    const { monitor } = setup();
+    await expect(monitor.refresh()).resolves.toBe(false);
+    const { error, health } = monitor.getState();
+    expect(error).toBe(message);
+    expect(health.consecutiveFailures).toBe(1);
+  });
+
+  it('clears the error once a reading arrives', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockFetch(new TypeError('Failed to fetch'), jsonResponse(payloadForGap(7)));
+    const { monitor } = setup();
+    await monitor.refresh();
+    await monitor.refresh();
+    expect(monitor.getState()).toMatchObject({ error: null, health: { consecutiveFailures: 0 } });
+  });
+});
+
+describe('demo replay', () => {
+  const scenario: ReplayScenario = {
+    name: 'Prueba',
+    frames: [7, 9.5, 7, 5.5].map((gap, i) => ({ t: i * MINUTE, payload: payloadForGap(gap) })),
+  };
+
+  it('plays frames through the pipeline without storing or dispatching them', () => {
+    vi.useFakeTimers();
+    const fetchMock = mockFetch(jsonResponse(payloadForGap(7)));
+    const { monitor, playSound, onTransition, persistReading } = setup();
+    monitor.startReplay(scenario);
+    monitor.getPlayer()?.setSpeed(60);
+    vi.advanceTimersByTime(20000);
+
+    expect(monitor.getState().replay.index).toBe(3);
+    expect(monitor.getState().data?.source.label).toEqual({ key: 'source.demo', vars: { name: 'Prueba' } });
+    expect(playSound.mock.calls).toEqual([['up'], ['down']]);
+    expect(onTransition.mock.calls.every(([, , live]) => live === false)).toBe(true);
+    expect(persistReading).not.toHaveBeenCalled();
+    expect(monitor.getState().session).toHaveLength(0);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('ignores manual refreshes while replaying', async () => {
+    vi.useFakeTimers();
+    const fetchMock = mockFetch(jsonResponse(payloadForGap(7)));
+    const { monitor } = setup();
+    monitor.startReplay(scenario);
+    await expect(monitor.refresh()).resolves.toBe(false);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('restores the cached reading when it stops', () => {
+    vi.useFakeTimers();
+    const cached = { ...readingForGap(8), status: 'stable', source: TEST_SOURCE } as MarketData;
+    const { monitor } = setup({}, cached);
+    const stop = monitor.startReplay(scenario);
+    vi.advanceTimersByTime(1000);
+    expect(monitor.getState().data).not.toBe(cached);
+    stop();
+    expect(monitor.getState()).toMatchObject({ data: cached, isFresh: false, trigger: null });
+    expect(monitor.getPlayer()).toBeNull();
+  });
+});
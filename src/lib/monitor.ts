@@ -0,0 +1,270 @@
+import { evaluateRules } from './alertRules';
+import type { AlertRule, AlertTrigger, RuleState } from './alertRules';
+import { loadSamples, sampleFromReading, HISTORY_WINDOWS, saveSample } from './history';
+import type { HistorySample } from './history';
+import { parseMarketPayload } from './parse';
+import { fetchSources } from './providers';
+import type { SourcedReading, SourcesConfig } from './providers';
+import { INITIAL_HEALTH, classifyFailure, recordFailure, recordSuccess, screenReading, trackRepeats } from './quality';
+import type { HealthState } from './quality';
+import { createReplayPlayer } from './replay';
+import type { ReplayPlayer, ReplayScenario, ReplayState } from './replay';
+import { rowFromData, MAX_SESSION_ROWS } from './export';
+import type { SessionRow } from './export';
+import { loadLastReading, saveLastReading } from './pwa';
+import { soundForStatus, playMarketSound } from './sound';
+import type { MarketSound } from './sound';
+import { startFeed } from './stream';
+import type { ConnectionState, StreamConfig } from './stream';
+import type { MarketData, MarketReading, MarketStatus, SourceInfo } from '../types';
+
+// --- Monitor Store ---
+
+export interface MonitorState {
+  data: MarketData | null;
+  isFresh: boolean; // false while showing the reading cached by a previous session
+  error: string | null;
+  ruleState: RuleState;
+  trigger: AlertTrigger | null;
+  connection: ConnectionState;
+  health: HealthState;
+  session: SessionRow[]; // live readings since the page loaded, for the export
+  replay: ReplayState;
+}
+
+export interface MonitorConfig {
+  rules: AlertRule[];
+  sources: SourcesConfig;
+  muted: boolean;
+}
+
+interface MonitorOptions {
+  getConfig: () => MonitorConfig; // read on every reading, so edits apply without restarting the feed
+  onTransition?: (data: MarketData, trigger: AlertTrigger | null, live: boolean) => void; // the caller words the trigger in its own language
+  fetchReading?: (sources: SourcesConfig) => Promise<SourcedReading>;
+  playSound?: (type: MarketSound) => void;
+  persistReading?: (data: MarketData, sample: HistorySample) => void;
+  loadRecent?: () => Promise<HistorySample[]>;
+  loadCached?: () => MarketData | null;
+  pollIntervalMs?: number;
+}
+
+export interface Monitor {
+  getState: () => MonitorState;
+  subscribe: (listener: () => void) => () => void;
+  ingest: (reading: MarketReading, source: SourceInfo, live?: boolean) => void;
+  ingestPayload: (payload: unknown) => void;
+  fail: (err: unknown) => void;
+  refresh: () => Promise<boolean>;
+  startLive: (stream: StreamConfig) => () => void;
+  startReplay: (scenario: ReplayScenario) => () => void;
+  getPlayer: () => ReplayPlayer | null;
+}
+
+const POLL_INTERVAL_MS = 30000; // poll every 30s when there's no stream
+
+const persistLive = (data: MarketData, sample: HistorySample) => {
+  saveLastReading(data);
+  saveSample(sample).catch((e) => console.error("History error:", e));
+};
+
+/**
+ * Owns the reading pipeline: quality screening, rule evaluation, sounds and
+ * status transitions, for both the live feed and the demo replay. The UI only
+ * subscribes to its state and forwards user actions.
+ */
+export const createMonitor = ({
+  getConfig,
+  onTransition,
+  fetchReading = fetchSources,
+  playSound = playMarketSound,
+  persistReading = persistLive,
+  loadRecent = () => loadSamples('24h'),
+  loadCached = loadLastReading,
+  pollIntervalMs = POLL_INTERVAL_MS,
+}: MonitorOptions): Monitor => {
+  let state: MonitorState = {
+    data: loadCached(),
+    isFresh: false,
+    error: null,
+    ruleState: {},
+    trigger: null,
+    connection: 'connecting',
+    health: INITIAL_HEALTH,
+    session: [],
+    replay: { index: -1, playing: false, speed: 1 },
+  };
+  const listeners = new Set<() => void>();
+
+  // Pipeline state that never needs to re-render anything
+  let lastStatus: MarketStatus | null = null;
+  let accepted: MarketReading | null = null; // baseline for outlier checks
+  let recent: HistorySample[] = [];
+  let seeded = false;
+  let player: ReplayPlayer | null = null;
+
+  const setState = (patch: Partial<MonitorState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach((l) => l());
+  };
+
+  const updateHealth = (update: (prev: HealthState) => HealthState) => setState({ health: update(state.health) });
+
+  // Rule windows, cooldowns and the last status only make sense along one timeline
+  const resetPipeline = () => {
+    lastStatus = null;
+    accepted = null;
+    recent = [];
+    seeded = false;
+    setState({
+      ruleState: {},
+      trigger: null,
+      health: { ...state.health, pending: null, readingKey: null, repeatedSince: null },
+    });
+  };
+
+  // Replayed readings run through the same rules and sounds but are not stored
+  const ingest = (reading: MarketReading, source: SourceInfo, live = true) => {
+    if (reading.warnings.length > 0) console.warn("Payload warnings:", reading.warnings);
+    const config = getConfig();
+
+    // A sudden jump is held back until the next reading confirms it
+    const screened = screenReading(state.health, reading, source, accepted, config.sources);
+    updateHealth(() => trackRepeats(recordSuccess(screened.state), reading));
+    if (screened.verdict === 'hold') {
+      console.warn("Outlier held:", screened.state.pending);
+      return;
+    }
+    accepted = reading;
+
+    const sample = sampleFromReading(reading);
+
+    // Determine status from the user-defined alert rules
+    const evaluation = evaluateRules(config.rules, sample, recent, state.ruleState);
+    const status = evaluation.status;
+    sample.status = status;
+    recent = [...recent.filter((s) => s.t >= sample.t - HISTORY_WINDOWS['24h']), sample];
+
+    const data: MarketData = { ...reading, status, source };
+    setState({
+      data,
+      isFresh: true,
+      error: null,
+      ruleState: evaluation.state,
+      trigger: evaluation.trigger,
+      session: live ? [...state.session.slice(-(MAX_SESSION_ROWS - 1)), rowFromData(data)] : state.session,
+    });
+
+    // Persist every live reading for the history view
+    if (live) persistReading(data, sample);
+
+    // Play sound only on status change
+    if (status !== lastStatus) {
+      const sound = soundForStatus(status, lastStatus);
+      if (sound && !config.muted) playSound(sound);
+      // Starting up in a stable market is not a transition worth announcing
+      if (lastStatus !== null || status !== 'stable') {
+        onTransition?.(data, evaluation.trigger, live);
+      }
+      lastStatus = status;
+    }
+  };
+
+  const fail = (err: unknown) => {
+    console.error("Fetch error:", err);
+    setState({ error: classifyFailure(err).message });
+    updateHealth((prev) => recordFailure(prev, err));
+  };
+
+  const refresh = async () => {
+    if (player) return false;
+
+    try {
+      const { reading, source } = await fetchReading(getConfig().sources);
+      ingest(reading, source);
+      return true;
+    } catch (err) {
+      fail(err);
+      return false;
+    }
+  };
+
+  // Pushed payloads go through the same parser and pipeline as polled ones
+  const ingestPayload = (payload: unknown) => {
+    try {
+      const body = payload && typeof payload === 'object' && !('analisis' in payload) ? { analisis: payload } : payload;
+      const reading = parseMarketPayload(body);
+      const kind = getConfig().sources.stream.kind;
+      ingest(reading, {
+        label: { key: 'source.stream', vars: { kind: kind === 'ws' ? 'WebSocket' : 'SSE' } },
+        quotes: [{ providerId: 'stream', name: 'Stream', bcv: reading.bcv, usdt: reading.usdt }],
+        spreadPct: 0,
+        disagree: false,
+        failed: 0,
+      });
+    } catch (err) {
+      fail(err);
+    }
+  };
+
+  const startLive = (stream: StreamConfig) => {
+    // Seed the rate-of-change buffer with what was recorded before a reload (or before a replay)
+    if (!seeded) {
+      seeded = true;
+      loadRecent()
+        .then((rows) => { recent = [...rows, ...recent]; })
+        .catch((e) => console.error("History error:", e));
+    }
+    return startFeed({
+      stream,
+      pollIntervalMs,
+      poll: refresh,
+      onMessage: ingestPayload,
+      onState: (connection) => setState({ connection }),
+      onPollScheduled: (at) => updateHealth((prev) => ({ ...prev, nextPollAt: at })),
+    });
+  };
+
+  // Loading another scenario keeps the chosen speed
+  const startReplay = (scenario: ReplayScenario) => {
+    resetPipeline();
+    const source: SourceInfo = { label: { key: 'source.demo', vars: { name: scenario.name } }, quotes: [], spreadPct: 0, disagree: false, failed: 0 };
+    const current = createReplayPlayer({
+      frames: scenario.frames,
+      onFrame: (frame, jumped) => {
+        if (jumped) resetPipeline();
+        try {
+          ingest(parseMarketPayload(frame.payload, new Date(frame.t)), source, false);
+        } catch (err) {
+          fail(err);
+        }
+      },
+      onState: (replay) => setState({ replay }),
+    });
+    player = current;
+    current.setSpeed(state.replay.speed);
+    current.play();
+    return () => {
+      current.destroy();
+      if (player === current) player = null;
+      resetPipeline();
+      // Don't leave a replayed reading on screen as if it were the market
+      setState({ data: loadCached(), isFresh: false });
+    };
+  };
+
+  return {
+    getState: () => state,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+    ingest,
+    ingestPayload,
+    fail,
+    refresh,
+    startLive,
+    startReplay,
+    getPlayer: () => player,
+  };
+};
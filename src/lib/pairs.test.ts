@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createPair, createPairMonitor, fetchPair, gaugeMaxFor, pairRules } from './pairs';
+import type { GapPair } from './pairs';
+import { amountToNumber } from './amount';
+import { PayloadError } from './parse';
+import { DEFAULT_SOURCES } from './providers';
+import { jsonResponse } from '../test/fixtures';
+
+const PAIR: GapPair = {
+  ...createPair(),
+  id: 'ars',
+  official: { url: 'http://official.test', path: 'venta', locale: 'en-US' },
+  parallel: { url: 'http://blue.test', path: 'blue.value_sell', locale: 'es-VE' },
+};
+
+// Answers by URL, since both prices are fetched at once
+const mockPrices = (official: unknown, parallel: unknown) => vi.stubGlobal('fetch', vi.fn(async (url: string) =>
+  jsonResponse(url === PAIR.official.url ? official : parallel)));
+
+describe('fetchPair', () => {
+  it('reads both prices through their paths', async () => {
+    mockPrices({ venta: 1000 }, { blue: { value_sell: '1250,50' } });
+    const { reading, source } = await fetchPair(PAIR);
+
+    expect(reading.bcv.currency).toBe('ARS');
+    expect(reading.gapPct).toBeCloseTo(25.05);
+    expect(reading.timestampSource).toBe('client');
+    expect(source.label).toBe(PAIR.name);
+  });
+
+  it('reads text prices with the separator each endpoint uses', async () => {
+    mockPrices({ venta: '1,240' }, { blue: { value_sell: '1.550' } });
+    const { reading } = await fetchPair(PAIR);
+
+    expect(amountToNumber(reading.bcv)).toBe(1240);
+    expect(amountToNumber(reading.usdt)).toBe(1550);
+  });
+
+  it('rejects a missing price as a payload error', async () => {
+    mockPrices({ venta: 1000 }, { blue: {} });
+    await expect(fetchPair(PAIR)).rejects.toBeInstanceOf(PayloadError);
+  });
+});
+
+describe('pairRules', () => {
+  it('turns the thresholds into one rule per alert status', () => {
+    const rules = pairRules({ ...PAIR, high: 30, low: 10 });
+    expect(rules.map((r) => [r.status, r.value])).toEqual([['devaluation', 30], ['appreciation', 10]]);
+    expect(new Set(rules.map((r) => r.id)).size).toBe(2);
+  });
+
+  it('sizes the gauge so the alert level sits mid-way', () => {
+    expect(gaugeMaxFor(20)).toBe(40);
+    expect(gaugeMaxFor(5)).toBe(20);
+  });
+});
+
+describe('createPairMonitor', () => {
+  it('judges readings against the pair thresholds', async () => {
+    mockPrices({ venta: 1000 }, { blue: { value_sell: 1300 } });
+    const onTransition = vi.fn();
+    const monitor = createPairMonitor({
+      getPair: () => PAIR,
+      getShared: () => ({ sources: DEFAULT_SOURCES, muted: true }),
+      onTransition,
+    });
+
+    expect(await monitor.refresh()).toBe(true);
+    expect(monitor.getState().data?.status).toBe('devaluation');
+    expect(onTransition).toHaveBeenCalledTimes(1);
+  });
+});
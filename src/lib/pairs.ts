@@ -0,0 +1,128 @@
+import { amountFromDecimal } from './amount';
+import type { Currency } from './amount';
+import { DEFAULT_RULES } from './alertRules';
+import type { AlertRule, AlertTrigger } from './alertRules';
+import type { Locale } from './format';
+import { createMonitor } from './monitor';
+import type { Monitor, MonitorConfig } from './monitor';
+import { normalizeDecimal, readingFromQuotes, PayloadError } from './parse';
+import { fetchJson, getPath } from './providers';
+import type { SourcedReading } from './providers';
+import type { MarketData } from '../types';
+
+// --- Gap Pairs ---
+// The BCV / USDT pair is fed by the profile's sources and judged by the rules
+// editor. Any other market is a gap pair: two prices of the same base currency,
+// each read from its own JSON endpoint, with a pair of thresholds.
+
+export type PairBase = Extract<Currency, 'USD' | 'EUR'>;
+export type PairCurrency = Extract<Currency, 'VES' | 'ARS' | 'NGN'>;
+
+export interface PriceSource {
+  url: string;
+  path: string; // dot path to the price in the response, empty when the body is the number itself
+  locale: Locale; // how the endpoint writes text prices, so "1,550" is read with the right separator
+}
+
+export interface GapPair {
+  id: string;
+  name: string;
+  base: PairBase; // what is being priced, e.g. the USD in "USD / ARS"
+  currency: PairCurrency; // what it is priced in
+  officialLabel: string;
+  parallelLabel: string;
+  official: PriceSource;
+  parallel: PriceSource;
+  high: number; // gap % above which the local currency counts as devaluing
+  low: number; // gap % below which it counts as recovering
+  enabled: boolean;
+}
+
+/** What the dashboard needs to show any pair, including the BCV / USDT one. */
+export interface PairInfo {
+  id: string;
+  name: string;
+  officialLabel: string;
+  parallelLabel: string;
+  base: Currency;
+  currency: Currency; // what both prices are quoted in, per unit of base
+  gaugeMax: number; // gap % that fills the gauge
+}
+
+export const PRIMARY_PAIR_ID = 'primary';
+export const PRIMARY_GAUGE_MAX = 20;
+
+export const PAIR_BASES: PairBase[] = ['USD', 'EUR'];
+export const PAIR_CURRENCIES: PairCurrency[] = ['VES', 'ARS', 'NGN'];
+
+export const createPair = (): GapPair => ({
+  id: `pair-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name: 'USD / ARS',
+  base: 'USD',
+  currency: 'ARS',
+  officialLabel: 'Oficial',
+  parallelLabel: 'Blue',
+  official: { url: '', path: '', locale: 'en-US' },
+  parallel: { url: '', path: '', locale: 'en-US' },
+  high: 20,
+  low: 5,
+  enabled: true,
+});
+
+// Twice the alert level, rounded up to a multiple of 5, so an alert sits mid-gauge
+export const gaugeMaxFor = (high: number) => Math.max(PRIMARY_GAUGE_MAX, Math.ceil((high * 2) / 5) * 5);
+
+export const pairInfo = (pair: GapPair): PairInfo => ({
+  id: pair.id,
+  name: pair.name,
+  officialLabel: pair.officialLabel,
+  parallelLabel: pair.parallelLabel,
+  base: pair.base,
+  currency: pair.currency,
+  gaugeMax: gaugeMaxFor(pair.high),
+});
+
+/** The pair's thresholds as the same two rules the BCV / USDT pair starts with. */
+export const pairRules = (pair: GapPair): AlertRule[] => DEFAULT_RULES.map((rule) => ({
+  ...rule,
+  id: `${pair.id}-${rule.status}`,
+  name: `${pair.name} ${rule.status === 'devaluation' ? '>' : '<'} ${rule.status === 'devaluation' ? pair.high : pair.low}%`,
+  value: rule.status === 'devaluation' ? pair.high : pair.low,
+}));
+
+const fetchPrice = async (source: PriceSource, field: string, currency: PairCurrency, signal?: AbortSignal) => {
+  const raw = getPath(await fetchJson(source.url, signal), source.path);
+  const decimal = typeof raw === 'number' || typeof raw === 'string' ? normalizeDecimal(raw, source.locale) : null;
+  const amount = decimal === null ? null : amountFromDecimal(decimal, currency);
+  if (!amount || amount.units <= 0) throw new PayloadError([{ field, code: 'price', message: 'precio no válido', value: raw }]);
+  return amount;
+};
+
+/** Reads both prices of a pair; either one failing fails the reading. */
+export const fetchPair = async (pair: GapPair, signal?: AbortSignal): Promise<SourcedReading> => {
+  const [official, parallel] = await Promise.all([
+    fetchPrice(pair.official, pair.officialLabel, pair.currency, signal),
+    fetchPrice(pair.parallel, pair.parallelLabel, pair.currency, signal),
+  ]);
+  const now = new Date();
+  return {
+    reading: readingFromQuotes(official, parallel, { timestamp: now, timestampSource: 'client', receivedAt: now, warnings: [] }),
+    source: { label: pair.name, quotes: [], spreadPct: 0, disagree: false, failed: 0 },
+  };
+};
+
+interface PairMonitorOptions {
+  getPair: () => GapPair;
+  getShared: () => Omit<MonitorConfig, 'rules'>; // quality limits and mute come from the active profile
+  onTransition?: (data: MarketData, trigger: AlertTrigger | null) => void;
+}
+
+/** A monitor for one extra pair. Its readings are kept in memory only. */
+export const createPairMonitor = ({ getPair, getShared, onTransition }: PairMonitorOptions): Monitor => createMonitor({
+  getConfig: () => ({ ...getShared(), rules: pairRules(getPair()) }),
+  fetchReading: () => fetchPair(getPair()),
+  onTransition: onTransition && ((data, trigger) => onTransition(data, trigger)),
+  persistReading: () => {},
+  loadRecent: async () => [],
+  loadCached: () => null,
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeDecimal, parseMarketPayload, PayloadError } from './parse';
+import { payloadForGap } from '../test/fixtures';
+
+const RECEIVED = new Date('2026-03-01T12:00:00Z');
+
+describe('normalizeDecimal', () => {
+  it.each([
+    ['1.234,56', '1234.56', '1234.56'],
+    ['1,234.56', '1234.56', '1234.56'],
+    ['51,20', '51.20', '51.20'],
+    ['1.234', '1234', '1.234'],
+    ['1,234', '1.234', '1234'],
+    ['-0,5', '-0.5', '-0.5'],
+    ['Bs. 1.234.567,8', '1234567.8', '1234567.8'],
+    ['1.2.3,4', null, null],
+    ['12.34.567', null, null],
+    ['n/d', null, null],
+  ])('reads "%s" as %s in es-VE and %s in en-US', (raw, esVE, enUS) => {
+    expect(normalizeDecimal(raw, 'es-VE')).toBe(esVE);
+    expect(normalizeDecimal(raw, 'en-US')).toBe(enUS);
+  });
+});
+
+describe('parseMarketPayload', () => {
+  it('reports every invalid field at once', () => {
+    const payload = { analisis: { precio_pivote_bcv: '', precio_paralelo_usdt: 'n/d', brecha_bs: {}, brecha_porcentaje: 'x' } };
+
+    try {
+      parseMarketPayload(payload, RECEIVED);
+      expect.unreachable();
+    } catch (err) {
+      expect(err).toBeInstanceOf(PayloadError);
+      expect((err as PayloadError).issues.map((i) => [i.field, i.code])).toEqual([
+        ['precio_pivote_bcv', 'required'],
+        ['precio_paralelo_usdt', 'number'],
+        ['brecha_bs', 'type'],
+        ['brecha_porcentaje', 'percent'],
+      ]);
+    }
+  });
+
+  it('rejects a price that is not positive', () => {
+    expect(() => parseMarketPayload({ analisis: { precio_pivote_bcv: 0, precio_paralelo_usdt: 50 } }, RECEIVED))
+      .toThrow(expect.objectContaining({ issues: [expect.objectContaining({ field: 'precio_pivote_bcv', code: 'positive' })] }));
+  });
+});
+
+describe('payload timestamp', () => {
+  it('uses an ISO date from the payload', () => {
+    const reading = parseMarketPayload(payloadForGap(8, '2026-03-01T11:58:00Z'), RECEIVED);
+
+    expect(reading.timestampSource).toBe('payload');
+    expect(reading.timestamp.toISOString()).toBe('2026-03-01T11:58:00.000Z');
+    expect(reading.warnings).toEqual([]);
+  });
+
+  it('falls back to client time without a warning for free text', () => {
+    for (const text of ['14:05', 'Modo Demo', '5']) {
+      const reading = parseMarketPayload(payloadForGap(8, text), RECEIVED);
+
+      expect(reading.timestampSource).toBe('client');
+      expect(reading.timestamp).toEqual(RECEIVED);
+      expect(reading.warnings).toEqual([]);
+    }
+  });
+
+  it('warns about a date in the future', () => {
+    const reading = parseMarketPayload(payloadForGap(8, '2026-03-01T13:00:00Z'), RECEIVED);
+    expect(reading.warnings).toEqual([expect.objectContaining({ field: 'timestamp', code: 'future' })]);
+  });
+});
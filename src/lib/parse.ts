@@ -0,0 +1,163 @@
+import { amountFromDecimal, amountToNumber, subtractAmounts, amountsDiffer } from './amount';
+import type { Amount } from './amount';
+import type { Locale } from './format';
+import type { FieldIssue, MarketReading } from '../types';
+
+// --- n8n Payload Parsing ---
+
+// Reported values may be rounded to cents by n8n, so allow a little slack.
+const GAP_BS_TOLERANCE = 0.01;
+const GAP_PCT_TOLERANCE = 0.05;
+
+export class PayloadError extends Error {
+  issues: FieldIssue[];
+
+  constructor(issues: FieldIssue[]) {
+    super(`FORMATO DE DATOS INVÁLIDO: ${issues.map((i) => `${i.field} (${i.message})`).join(', ')}`);
+    this.name = 'PayloadError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Normalizes a human-formatted number ("Bs. 1.234,56", "7.03%", "1,234.5")
+ * into a plain decimal string ("1234.56"). When only one separator appears
+ * once and is followed by exactly three digits it is ambiguous, so the
+ * locale's grouping separator decides. Returns null for anything that
+ * can't be read unambiguously.
+ */
+export const normalizeDecimal = (raw: string | number, locale: Locale = 'es-VE'): string | null => {
+  if (typeof raw === 'number') return Number.isFinite(raw) ? String(raw) : null;
+
+  // Only look between the first and last digit so "Bs." prefixes don't count as separators
+  const span = /\d[\d.,\s]*\d|\d/.exec(raw);
+  if (!span) return null;
+  const body = span[0].replace(/\s/g, '');
+  const negative = raw.slice(0, span.index).trim().endsWith('-') || /^\s*\(.*\)\s*$/.test(raw);
+
+  const lastDot = body.lastIndexOf('.');
+  const lastComma = body.lastIndexOf(',');
+  let decimalSep: '.' | ',' | null;
+
+  if (lastDot >= 0 && lastComma >= 0) {
+    decimalSep = lastDot > lastComma ? '.' : ',';
+  } else {
+    const sep = lastDot >= 0 ? '.' : lastComma >= 0 ? ',' : null;
+    if (!sep) {
+      decimalSep = null;
+    } else if (body.split(sep).length > 2) {
+      decimalSep = null; // repeated separator can only be grouping
+    } else if (body.length - body.indexOf(sep) - 1 === 3) {
+      decimalSep = (locale === 'es-VE' ? ',' : '.') === sep ? sep : null;
+    } else {
+      decimalSep = sep;
+    }
+  }
+
+  const [int, frac] = decimalSep
+    ? [body.slice(0, body.lastIndexOf(decimalSep)), body.slice(body.lastIndexOf(decimalSep) + 1)]
+    : [body, ''];
+  // Grouping must come in threes with a single separator, so "1.2.3,4" is rejected rather than read as 123.4
+  if (/[.,]/.test(int) && !/^\d{1,3}(?:\.\d{3})+$|^\d{1,3}(?:,\d{3})+$/.test(int)) return null;
+  const digits = int.replace(/[.,]/g, '') || '0';
+  if (/[.,]/.test(frac)) return null;
+
+  return `${negative ? '-' : ''}${digits}${frac ? `.${frac}` : ''}`;
+};
+
+const parseAmountField = (obj: Record<string, unknown>, field: string, issues: FieldIssue[], required: boolean): Amount | null => {
+  const value = obj[field];
+  if (value === undefined || value === null || value === '') {
+    if (required) issues.push({ field, code: 'required', message: 'campo requerido' });
+    return null;
+  }
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    issues.push({ field, code: 'type', message: 'tipo no válido', value });
+    return null;
+  }
+  const decimal = normalizeDecimal(value);
+  const amount = decimal !== null ? amountFromDecimal(decimal, 'VES') : null;
+  if (!amount) issues.push({ field, code: 'number', message: 'número no válido', value });
+  return amount;
+};
+
+// The webhook's timestamp is free text ("14:05", "Modo Demo"...). Only epoch numbers and
+// ISO dates, as n8n's $now produces, are trusted; anything else falls back to client time.
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const parseTimestamp = (value: unknown, receivedAt: Date, warnings: FieldIssue[]) => {
+  let date: Date | null = null;
+  if (typeof value === 'number') date = new Date(value < 1e12 ? value * 1000 : value);
+  else if (typeof value === 'string' && ISO_DATE.test(value.trim())) date = new Date(value.trim());
+  if (!date || Number.isNaN(date.getTime())) return null;
+  if (date.getTime() - receivedAt.getTime() > 5 * 60 * 1000) {
+    warnings.push({ field: 'timestamp', code: 'future', message: 'fecha en el futuro', value });
+  }
+  return date;
+};
+
+/**
+ * Validates the webhook response (`{ analisis: {...}, timestamp? }`) and turns
+ * it into a typed reading. Throws a PayloadError listing every invalid field;
+ * recoverable problems, such as a reported gap that doesn't match the two
+ * prices, are returned as warnings instead.
+ */
+export const parseMarketPayload = (result: unknown, receivedAt = new Date()): MarketReading => {
+  const root = result && typeof result === 'object' ? result as Record<string, unknown> : null;
+  const analisis = root?.analisis && typeof root.analisis === 'object' ? root.analisis as Record<string, unknown> : null;
+  if (!analisis) throw new PayloadError([{ field: 'analisis', code: 'object', message: 'objeto requerido' }]);
+
+  const issues: FieldIssue[] = [];
+  const warnings: FieldIssue[] = [];
+
+  const bcv = parseAmountField(analisis, 'precio_pivote_bcv', issues, true);
+  const usdt = parseAmountField(analisis, 'precio_paralelo_usdt', issues, true);
+  const reportedGapBs = parseAmountField(analisis, 'brecha_bs', issues, false);
+
+  let reportedGapPct: number | null = null;
+  const rawPct = analisis.brecha_porcentaje;
+  if (rawPct !== undefined && rawPct !== null && rawPct !== '') {
+    const decimal = typeof rawPct === 'string' || typeof rawPct === 'number' ? normalizeDecimal(rawPct, 'en-US') : null;
+    if (decimal === null) issues.push({ field: 'brecha_porcentaje', code: 'percent', message: 'porcentaje no válido', value: rawPct });
+    else reportedGapPct = parseFloat(decimal);
+  }
+
+  if (bcv && bcv.units <= 0) issues.push({ field: 'precio_pivote_bcv', code: 'positive', message: 'debe ser mayor que cero', value: analisis.precio_pivote_bcv });
+  if (usdt && usdt.units <= 0) issues.push({ field: 'precio_paralelo_usdt', code: 'positive', message: 'debe ser mayor que cero', value: analisis.precio_paralelo_usdt });
+  if (issues.length > 0 || !bcv || !usdt) throw new PayloadError(issues);
+
+  // Cross-check the reported gap against the two prices
+  const gapBs = subtractAmounts(usdt, bcv);
+  const gapPct = (amountToNumber(gapBs) / amountToNumber(bcv)) * 100;
+
+  if (reportedGapBs && amountsDiffer(reportedGapBs, gapBs, GAP_BS_TOLERANCE)) {
+    warnings.push({ field: 'brecha_bs', code: 'mismatch', message: `no coincide con los precios (calculado ${amountToNumber(gapBs).toFixed(2)})`, value: analisis.brecha_bs });
+  }
+  if (reportedGapPct !== null && Math.abs(reportedGapPct - gapPct) > GAP_PCT_TOLERANCE) {
+    warnings.push({ field: 'brecha_porcentaje', code: 'mismatch', message: `no coincide con los precios (calculado ${gapPct.toFixed(2)}%)`, value: rawPct });
+  }
+
+  const timestamp = parseTimestamp(root?.timestamp, receivedAt, warnings);
+
+  return {
+    bcv,
+    usdt,
+    // The reported figures are what the team sees upstream, so they win for display
+    gapBs: reportedGapBs ?? gapBs,
+    gapPct: reportedGapPct ?? gapPct,
+    timestamp: timestamp ?? receivedAt,
+    timestampSource: timestamp ? 'payload' : 'client',
+    receivedAt,
+    warnings,
+  };
+};
+
+/** Builds a reading straight from two prices, e.g. after aggregating sources. */
+export const readingFromQuotes = (
+  bcv: Amount,
+  usdt: Amount,
+  meta: Pick<MarketReading, 'timestamp' | 'timestampSource' | 'receivedAt' | 'warnings'>,
+): MarketReading => {
+  const gapBs = subtractAmounts(usdt, bcv);
+  return { ...meta, bcv, usdt, gapBs, gapPct: (amountToNumber(gapBs) / amountToNumber(bcv)) * 100 };
+};
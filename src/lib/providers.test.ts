@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createProvider, DEFAULT_SOURCES, fetchJson, fetchSources } from './providers';
+import type { SourcesConfig } from './providers';
+import { jsonResponse, payloadForGap } from '../test/fixtures';
+
+const source = (url: string) => ({ ...createProvider('n8n'), id: url, name: url, url });
+
+const config = (strategy: SourcesConfig['strategy']): SourcesConfig => ({
+  ...DEFAULT_SOURCES,
+  strategy,
+  providers: [source('http://primary.test'), source('http://backup.test')],
+});
+
+// Answers by URL; anything missing from the map fails like an unreachable host
+const mockSources = (answers: Record<string, number>) => {
+  const fetchMock = vi.fn(async (url: string) => {
+    if (!(url in answers)) throw new TypeError('Failed to fetch');
+    return jsonResponse(payloadForGap(answers[url]));
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+describe('fetchSources', () => {
+  it('leaves the backups alone while the primary answers', async () => {
+    const fetchMock = mockSources({ 'http://primary.test': 8, 'http://backup.test': 9 });
+    const { reading, source: info } = await fetchSources(config('failover'));
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(reading.gapPct).toBeCloseTo(8);
+    expect(info).toMatchObject({ label: 'http://primary.test', failed: 0 });
+  });
+
+  it('falls over to the next source when the primary fails', async () => {
+    const fetchMock = mockSources({ 'http://backup.test': 9 });
+    const { reading, source: info } = await fetchSources(config('failover'));
+
+    expect(fetchMock.mock.calls.map((c) => c[0])).toEqual(['http://primary.test', 'http://backup.test']);
+    expect(reading.gapPct).toBeCloseTo(9);
+    expect(info).toMatchObject({ label: 'http://backup.test', failed: 1 });
+  });
+
+  it('throws the primary error when every source fails', async () => {
+    mockSources({});
+    await expect(fetchSources(config('failover'))).rejects.toThrow('Failed to fetch');
+  });
+
+  it('asks every source for the median', async () => {
+    const fetchMock = mockSources({ 'http://primary.test': 8, 'http://backup.test': 10 });
+    const { reading } = await fetchSources(config('aggregate'));
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(reading.gapPct).toBeCloseTo(9);
+  });
+});
+
+describe('fetchJson', () => {
+  it('stops listening to the caller signal once done', async () => {
+    mockSources({ 'http://primary.test': 8 });
+    const controller = new AbortController();
+    const remove = vi.spyOn(controller.signal, 'removeEventListener');
+
+    await fetchJson('http://primary.test', controller.signal);
+    expect(remove).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+});
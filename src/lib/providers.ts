@@ -0,0 +1,186 @@
+import { parseMarketPayload, readingFromQuotes } from './parse';
+import { MessageError } from './i18n';
+import type { Amount } from './amount';
+import type { StreamConfig } from './stream';
+import type { MarketReading, SourceInfo, SourceQuote } from '../types';
+
+// --- Data Providers ---
+
+export type ProviderKind = 'n8n' | 'json' | 'static';
+export type SourceStrategy = 'failover' | 'aggregate';
+
+export interface FieldMapping {
+  bcv: string; // dot path into the response, e.g. "data.rates.bcv"
+  usdt: string;
+  timestamp: string; // optional, empty to use the client clock
+}
+
+export interface ProviderConfig {
+  id: string;
+  name: string;
+  kind: ProviderKind;
+  url: string;
+  enabled: boolean;
+  mapping: FieldMapping;
+}
+
+export interface SourcesConfig {
+  providers: ProviderConfig[]; // priority order for failover
+  strategy: SourceStrategy;
+  tolerancePct: number; // max spread between sources before flagging
+  staleAfterMinutes: number; // source timestamp age (or unchanged reading) before flagging as stale, 0 disables
+  outlierPct: number; // price move in one reading that is held until confirmed, 0 disables
+  stream: StreamConfig; // optional push channel, polling stays as the fallback
+}
+
+export interface SourcedReading {
+  reading: MarketReading;
+  source: SourceInfo;
+}
+
+// The build can point at another VPS with VITE_WEBHOOK_URL; see .env.example
+export const DEFAULT_WEBHOOK_URL = import.meta.env.VITE_WEBHOOK_URL || 'https://n8n.jairokov.com/webhook/gap-data';
+const FETCH_TIMEOUT_MS = 8000;
+
+const EMPTY_MAPPING: FieldMapping = { bcv: '', usdt: '', timestamp: '' };
+
+export const DEFAULT_SOURCES: SourcesConfig = {
+  providers: [
+    { id: 'n8n-default', name: 'n8n VPS', kind: 'n8n', url: DEFAULT_WEBHOOK_URL, enabled: true, mapping: EMPTY_MAPPING },
+    { id: 'static-sample', name: 'Archivo local', kind: 'static', url: '/market-sample.json', enabled: false, mapping: EMPTY_MAPPING },
+  ],
+  strategy: 'failover',
+  tolerancePct: 1.5,
+  staleAfterMinutes: 15,
+  outlierPct: 15,
+  stream: { kind: 'off', url: '' },
+};
+
+export const PROVIDER_KIND_LABELS: Record<ProviderKind, string> = {
+  n8n: 'Webhook n8n',
+  json: 'JSON genérico',
+  static: 'Archivo estático',
+};
+
+export const createProvider = (kind: ProviderKind): ProviderConfig => ({
+  id: `src-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name: PROVIDER_KIND_LABELS[kind],
+  kind,
+  url: '',
+  enabled: true,
+  mapping: kind === 'json' ? { bcv: 'bcv', usdt: 'usdt', timestamp: '' } : EMPTY_MAPPING,
+});
+
+export const getPath = (obj: unknown, path: string): unknown =>
+  path.split('.').filter(Boolean).reduce<unknown>(
+    (acc, key) => (acc && typeof acc === 'object' ? (acc as Record<string, unknown>)[key] : undefined),
+    obj,
+  );
+
+export const fetchJson = async (url: string, signal?: AbortSignal) => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  const abort = () => controller.abort();
+  signal?.addEventListener('abort', abort, { once: true });
+  try {
+    const response = await fetch(url, { signal: controller.signal, cache: 'no-store' });
+    if (!response.ok) throw new MessageError('health.message.http', { status: response.status });
+    return await response.json();
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', abort);
+  }
+};
+
+/** Fetches one source and normalizes it through the regular payload parser. */
+export const fetchProvider = async (provider: ProviderConfig, signal?: AbortSignal): Promise<MarketReading> => {
+  const result = await fetchJson(provider.url, signal);
+  if (provider.kind !== 'json') return parseMarketPayload(result);
+
+  // Generic endpoints are mapped onto the n8n shape so validation stays in one place
+  const { bcv, usdt, timestamp } = provider.mapping;
+  return parseMarketPayload({
+    analisis: { precio_pivote_bcv: getPath(result, bcv), precio_paralelo_usdt: getPath(result, usdt) },
+    timestamp: timestamp ? getPath(result, timestamp) : undefined,
+  });
+};
+
+const medianAmount = (amounts: Amount[]): Amount => {
+  const sorted = [...amounts].sort((a, b) => a.units - b.units);
+  const mid = Math.floor(sorted.length / 2);
+  const units = sorted.length % 2 ? sorted[mid].units : Math.round((sorted[mid - 1].units + sorted[mid].units) / 2);
+  return { units, currency: sorted[0].currency };
+};
+
+const spreadPct = (amounts: Amount[]) => {
+  if (amounts.length < 2) return 0;
+  const units = amounts.map((a) => a.units);
+  const median = medianAmount(amounts).units;
+  return median === 0 ? 0 : ((Math.max(...units) - Math.min(...units)) / median) * 100;
+};
+
+// Tries the sources one at a time in priority order, so backups only see traffic while the primary is down.
+// Only one quote is ever read, so there is no spread and no disagreement to report.
+const fetchFailover = async (enabled: ProviderConfig[], signal?: AbortSignal): Promise<SourcedReading> => {
+  let firstError: unknown;
+  for (const [i, provider] of enabled.entries()) {
+    try {
+      const reading = await fetchProvider(provider, signal);
+      const quotes: SourceQuote[] = [{ providerId: provider.id, name: provider.name, bcv: reading.bcv, usdt: reading.usdt }];
+      return { reading, source: { label: provider.name, quotes, spreadPct: 0, disagree: false, failed: i } };
+    } catch (err) {
+      if (i === 0) firstError = err;
+      if (signal?.aborted) break;
+    }
+  }
+  throw firstError;
+};
+
+/**
+ * With 'failover' the first source in priority order that answers wins, and
+ * the next one is only asked when it fails, so sources are never cross-checked. With 'aggregate' every enabled
+ * source is queried in parallel, the median of all answers is used and the
+ * quotes are compared to flag disagreement. If nothing answers, the error
+ * from the highest-priority source is thrown.
+ */
+export const fetchSources = async (config: SourcesConfig, signal?: AbortSignal): Promise<SourcedReading> => {
+  const enabled = config.providers.filter((p) => p.enabled && p.url);
+  if (enabled.length === 0) throw new MessageError('health.message.noSources');
+  if (config.strategy === 'failover') return fetchFailover(enabled, signal);
+
+  const settled = await Promise.allSettled(enabled.map((p) => fetchProvider(p, signal)));
+  const ok = settled
+    .map((res, i) => (res.status === 'fulfilled' ? { provider: enabled[i], reading: res.value } : null))
+    .filter((r): r is { provider: ProviderConfig; reading: MarketReading } => r !== null);
+
+  if (ok.length === 0) throw (settled[0] as PromiseRejectedResult).reason;
+
+  const quotes: SourceQuote[] = ok.map(({ provider, reading }) => ({
+    providerId: provider.id,
+    name: provider.name,
+    bcv: reading.bcv,
+    usdt: reading.usdt,
+  }));
+  const spread = Math.max(spreadPct(quotes.map((q) => q.usdt)), spreadPct(quotes.map((q) => q.bcv)));
+  const failed = settled.length - ok.length;
+
+  if (ok.length === 1) {
+    const { provider, reading } = ok[0];
+    return {
+      reading,
+      source: { label: provider.name, quotes, spreadPct: spread, disagree: spread > config.tolerancePct, failed },
+    };
+  }
+
+  const latest = ok.reduce((a, b) => (b.reading.timestamp > a.reading.timestamp ? b : a)).reading;
+  const reading = readingFromQuotes(medianAmount(quotes.map((q) => q.bcv)), medianAmount(quotes.map((q) => q.usdt)), {
+    timestamp: latest.timestamp,
+    timestampSource: latest.timestampSource,
+    receivedAt: latest.receivedAt,
+    warnings: ok.flatMap(({ provider, reading: r }) => r.warnings.map((w) => ({ ...w, field: `${provider.name}: ${w.field}` }))),
+  });
+  return {
+    reading,
+    source: { label: { key: 'source.median', vars: { count: ok.length } }, quotes, spreadPct: spread, disagree: spread > config.tolerancePct, failed },
+  };
+};
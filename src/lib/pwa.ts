@@ -0,0 +1,74 @@
+import { formatAmount, formatPercent } from './format';
+import type { Locale } from './format';
+import type { Translate } from './i18n';
+import type { PairInfo } from './pairs';
+import type { MarketData } from '../types';
+
+// --- PWA: service worker, last known reading, system notifications ---
+
+const LAST_READING_KEY = 'hoole.lastReading';
+
+export const registerServiceWorker = () => {
+  if (!('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch((e) => console.error("Service worker error:", e));
+  });
+};
+
+export const saveLastReading = (data: MarketData) => {
+  try {
+    localStorage.setItem(LAST_READING_KEY, JSON.stringify(data));
+  } catch (e) { console.error("Last reading storage error:", e); }
+};
+
+export const loadLastReading = (): MarketData | null => {
+  try {
+    const raw = localStorage.getItem(LAST_READING_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    if (!parsed?.bcv || !parsed?.usdt || !parsed?.source) return null;
+    return { ...parsed, timestamp: new Date(parsed.timestamp), receivedAt: new Date(parsed.receivedAt) };
+  } catch {
+    return null;
+  }
+};
+
+// Must be called from a user gesture on most browsers
+export const requestNotificationPermission = async () => {
+  if (!('Notification' in window) || Notification.permission !== 'default') return;
+  try {
+    await Notification.requestPermission();
+  } catch (e) { console.error("Notification error:", e); }
+};
+
+/**
+ * Shows a system notification for a status transition. Goes through the
+ * service worker when possible, since mobile browsers reject `new Notification`.
+ */
+export const notifyStatusChange = async (data: MarketData, detail: string | null, t: Translate, locale: Locale, pair?: PairInfo) => {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+
+  const status = t(`notify.title.${data.status}`);
+  const title = pair ? `${status} · ${pair.name}` : status;
+  const options: NotificationOptions = {
+    body: [
+      t('notify.body', {
+        gap: formatPercent(data.gapPct, locale),
+        parallel: pair?.parallelLabel ?? 'USDT',
+        parallelPrice: formatAmount(data.usdt, locale),
+        official: pair?.officialLabel ?? 'BCV',
+        officialPrice: formatAmount(data.bcv, locale),
+      }),
+      detail,
+    ].filter(Boolean).join('\n'),
+    icon: '/icon.svg',
+    badge: '/icon.svg',
+    tag: pair ? `hoole-status-${pair.id}` : 'hoole-status', // replace the previous alert instead of stacking them
+  };
+
+  try {
+    const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+    if (registration) await registration.showNotification(title, options);
+    else new Notification(title, options);
+  } catch (e) { console.error("Notification error:", e); }
+};
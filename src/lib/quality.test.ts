@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { INITIAL_HEALTH, classifyFailure, errorMessage, isAbortError, describeStaleness, recordFailure, recordSuccess, screenReading, trackRepeats } from './quality';
+import { fetchSources, DEFAULT_SOURCES } from './providers';
+import type { SourcesConfig } from './providers';
+import { PayloadError } from './parse';
+import { MessageError } from './i18n';
+import { TEST_SOURCE, abortError, jsonResponse, mockFetch, readingForGap } from '../test/fixtures';
+
+const SOURCES: SourcesConfig = {
+  ...DEFAULT_SOURCES,
+  providers: [{ ...DEFAULT_SOURCES.providers[0], url: 'http://vps.test/webhook' }],
+};
+const CONFIG = { outlierPct: 15, staleAfterMinutes: 15 };
+const MINUTE = 60 * 1000;
+
+// The error fetchSources throws for a given fetch outcome
+const failureFor = async (...answers: unknown[]) => {
+  mockFetch(...answers);
+  return fetchSources(SOURCES).then(() => null, (err) => err);
+};
+
+describe('classifyFailure', () => {
+  it('maps an aborted request to a timeout', async () => {
+    expect(classifyFailure(await failureFor(abortError()))).toEqual({
+      kind: 'timeout', message: 'TIEMPO DE ESPERA AGOTADO (Timeout)', text: { key: 'health.message.timeout' },
+    });
+  });
+
+  it('maps Chrome and Firefox fetch failures to a network / CORS error', async () => {
+    const cors = { kind: 'network', message: 'ERROR DE RED O CORS (Habilita CORS en n8n)', text: { key: 'health.message.network' } };
+    expect(classifyFailure(await failureFor(new TypeError('Failed to fetch')))).toEqual(cors);
+    expect(classifyFailure(await failureFor(new TypeError('NetworkError when attempting to fetch resource.')))).toEqual(cors);
+  });
+
+  it('keeps the status code of HTTP errors', async () => {
+    expect(classifyFailure(await failureFor(jsonResponse({}, 502)))).toEqual({
+      kind: 'http', message: 'Error HTTP: 502', text: { key: 'health.message.http', vars: { status: 502 } },
+    });
+  });
+
+  it('reports a malformed payload as a schema error', async () => {
+    const err = await failureFor(jsonResponse({ precio: 1 }));
+    expect(err).toBeInstanceOf(PayloadError);
+    expect(classifyFailure(err).kind).toBe('schema');
+  });
+
+  it('falls back to a generic connection error', () => {
+    expect(classifyFailure({})).toEqual({ kind: 'other', message: 'ERROR DE CONEXIÓN', text: { key: 'health.message.other' } });
+  });
+});
+
+describe('caught errors', () => {
+  it('reads errors and DOM exceptions alike', () => {
+    expect(isAbortError(abortError())).toBe(true);
+    expect(isAbortError(new TypeError('Failed to fetch'))).toBe(false);
+    expect(errorMessage(new DOMException('Quota exceeded', 'QuotaExceededError'))).toBe('Quota exceeded');
+    expect(errorMessage('plain text')).toBe('');
+  });
+});
+
+describe('failure counters', () => {
+  it('counts consecutive failures until the next success', () => {
+    const failed = recordFailure(recordFailure(INITIAL_HEALTH, abortError(), 1), new MessageError('health.message.http', { status: 500 }), 2);
+    expect(failed.consecutiveFailures).toBe(2);
+    expect(failed.failures.map((f) => f.kind)).toEqual(['http', 'timeout']);
+    const recovered = recordSuccess(failed, 3);
+    expect(recovered).toMatchObject({ consecutiveFailures: 0, lastSuccessAt: 3 });
+    expect(recovered.failures).toHaveLength(2);
+  });
+});
+
+describe('screenReading', () => {
+  const accepted = readingForGap(8);
+
+  it('accepts moves within the outlier limit', () => {
+    expect(screenReading(INITIAL_HEALTH, readingForGap(10), TEST_SOURCE, accepted, CONFIG).verdict).toBe('accept');
+  });
+
+  it('holds a jump until the next reading confirms it', () => {
+    const held = screenReading(INITIAL_HEALTH, readingForGap(40), TEST_SOURCE, accepted, CONFIG);
+    expect(held.verdict).toBe('hold');
+    expect(held.state.pending?.metric).toBe('usdt');
+    const confirmed = screenReading(held.state, readingForGap(40.5), TEST_SOURCE, accepted, CONFIG);
+    expect(confirmed.verdict).toBe('confirm');
+    expect(confirmed.state.pending).toBeNull();
+  });
+
+  it('drops a held jump when prices come back and logs it as an outlier', () => {
+    const held = screenReading(INITIAL_HEALTH, readingForGap(40), TEST_SOURCE, accepted, CONFIG);
+    const back = screenReading(held.state, readingForGap(8.2), TEST_SOURCE, accepted, CONFIG);
+    expect(back.verdict).toBe('accept');
+    expect(back.state.failures[0].kind).toBe('outlier');
+  });
+
+  it('lets everything through when disabled', () => {
+    expect(screenReading(INITIAL_HEALTH, readingForGap(40), TEST_SOURCE, accepted, { ...CONFIG, outlierPct: 0 }).verdict).toBe('accept');
+  });
+});
+
+describe('describeStaleness', () => {
+  it('flags a source that keeps returning the same reading', () => {
+    const state = trackRepeats(trackRepeats(INITIAL_HEALTH, readingForGap(8, 0)), readingForGap(8, 10 * MINUTE));
+    expect(describeStaleness(state, readingForGap(8, 10 * MINUTE), CONFIG, 14 * MINUTE)).toBeNull();
+    expect(describeStaleness(state, readingForGap(8, 10 * MINUTE), CONFIG, 16 * MINUTE)).toEqual({ kind: 'repeated', since: 0 });
+  });
+
+  it('is off when the limit is zero', () => {
+    const state = trackRepeats(INITIAL_HEALTH, readingForGap(8, 0));
+    expect(describeStaleness(state, readingForGap(8, 0), { ...CONFIG, staleAfterMinutes: 0 }, 60 * MINUTE)).toBeNull();
+  });
+});
@@ -0,0 +1,179 @@
+import { amountToNumber } from './amount';
+import { formatPercent, DEFAULT_LOCALE } from './format';
+import { PayloadError } from './parse';
+import { MessageError } from './i18n';
+import type { MessageKey, Text } from './i18n';
+import type { FieldIssue, MarketReading, SourceInfo } from '../types';
+
+// --- Data-quality Guardrails ---
+
+export type FailureKind = 'timeout' | 'network' | 'http' | 'schema' | 'outlier' | 'other';
+
+export interface FailureEntry {
+  at: number;
+  kind: FailureKind;
+  message: string; // Spanish, for the console
+  text: Text; // what the interface shows
+  issues?: FieldIssue[]; // what was wrong with a malformed payload
+  outlier?: { metric: 'bcv' | 'usdt'; changePct: number }; // the jump that was dropped
+}
+
+export interface PendingOutlier {
+  reading: MarketReading;
+  source: SourceInfo;
+  metric: 'bcv' | 'usdt';
+  changePct: number;
+  at: number;
+}
+
+export interface HealthState {
+  failures: FailureEntry[]; // newest first
+  consecutiveFailures: number;
+  lastSuccessAt: number | null;
+  nextPollAt: number | null;
+  pending: PendingOutlier | null; // held back until the next reading confirms or contradicts it
+  readingKey: string | null;
+  repeatedSince: number | null; // first time the current identical reading was seen
+}
+
+export interface QualityConfig {
+  staleAfterMinutes: number;
+  outlierPct: number;
+}
+
+export type Verdict = 'accept' | 'hold' | 'confirm';
+
+// 'source': the payload's own timestamp is old; 'repeated': the same reading keeps coming back
+export interface StaleReason {
+  kind: 'source' | 'repeated';
+  since: number;
+}
+
+export const INITIAL_HEALTH: HealthState = {
+  failures: [],
+  consecutiveFailures: 0,
+  lastSuccessAt: null,
+  nextPollAt: null,
+  pending: null,
+  readingKey: null,
+  repeatedSince: null,
+};
+
+const MAX_FAILURES = 30;
+const CONFIRM_TOLERANCE_PCT = 2; // how close a follow-up must be to the held value to confirm it
+const MINUTE = 60 * 1000;
+
+// --- Caught errors ---
+// Caught values are unknown, and DOMException is not an Error subclass everywhere (jsdom among them)
+
+const asError = (err: unknown) => (err instanceof Error || err instanceof DOMException ? err : null);
+
+export const isAbortError = (err: unknown) => asError(err)?.name === 'AbortError';
+
+/** The error's own message, or an empty string for anything thrown that isn't an error. */
+export const errorMessage = (err: unknown) => asError(err)?.message ?? '';
+
+const failure = (kind: FailureKind, key: MessageKey): Omit<FailureEntry, 'at'> => {
+  const { message, text } = new MessageError(key);
+  return { kind, message, text };
+};
+
+/** Maps a fetch or parse error to a category and the message shown to the user. */
+export const classifyFailure = (err: unknown): Omit<FailureEntry, 'at'> => {
+  if (isAbortError(err)) return failure('timeout', 'health.message.timeout');
+  if (err instanceof PayloadError) return { kind: 'schema', message: err.message, text: { key: 'failure.schema' }, issues: err.issues };
+  if (err instanceof MessageError) return { kind: err.text.key === 'health.message.http' ? 'http' : 'other', message: err.message, text: err.text };
+  const message = errorMessage(err);
+  if (message.includes('Failed to fetch') || message.includes('NetworkError')) return failure('network', 'health.message.network');
+  return message ? { kind: 'other', message, text: message } : failure('other', 'health.message.other');
+};
+
+const pushFailure = (failures: FailureEntry[], entry: FailureEntry) => [entry, ...failures].slice(0, MAX_FAILURES);
+
+export const recordFailure = (state: HealthState, err: unknown, at = Date.now()): HealthState => ({
+  ...state,
+  failures: pushFailure(state.failures, { at, ...classifyFailure(err) }),
+  consecutiveFailures: state.consecutiveFailures + 1,
+});
+
+export const recordSuccess = (state: HealthState, at = Date.now()): HealthState => ({
+  ...state,
+  consecutiveFailures: 0,
+  lastSuccessAt: at,
+});
+
+const changePct = (next: number, prev: number) => (prev === 0 ? 0 : ((next - prev) / prev) * 100);
+
+// Largest relative move of either price, with the metric that moved
+const largestJump = (next: Pick<MarketReading, 'bcv' | 'usdt'>, prev: Pick<MarketReading, 'bcv' | 'usdt'>) => {
+  const usdt = changePct(amountToNumber(next.usdt), amountToNumber(prev.usdt));
+  const bcv = changePct(amountToNumber(next.bcv), amountToNumber(prev.bcv));
+  return Math.abs(usdt) >= Math.abs(bcv) ? { metric: 'usdt' as const, pct: usdt } : { metric: 'bcv' as const, pct: bcv };
+};
+
+/**
+ * Decides whether a reading can go through. A price that moves more than
+ * `outlierPct` from the last accepted reading is held; the next reading
+ * either confirms it (close to the held value) or, by landing back near the
+ * accepted price, shows it was a glitch and the held value is dropped.
+ */
+export const screenReading = (
+  state: HealthState,
+  reading: MarketReading,
+  source: SourceInfo,
+  accepted: Pick<MarketReading, 'bcv' | 'usdt'> | null,
+  config: QualityConfig,
+): { state: HealthState; verdict: Verdict } => {
+  const at = reading.receivedAt.getTime();
+  if (!accepted || config.outlierPct <= 0) return { state: { ...state, pending: null }, verdict: 'accept' };
+
+  const jump = largestJump(reading, accepted);
+  if (Math.abs(jump.pct) <= config.outlierPct) {
+    const failures = state.pending
+      ? pushFailure(state.failures, {
+        at,
+        kind: 'outlier',
+        message: `${state.pending.metric.toUpperCase()} ${formatPercent(state.pending.changePct, DEFAULT_LOCALE, true)} descartado`,
+        text: { key: 'failure.outlier' },
+        outlier: { metric: state.pending.metric, changePct: state.pending.changePct },
+      })
+      : state.failures;
+    return { state: { ...state, failures, pending: null }, verdict: 'accept' };
+  }
+
+  if (state.pending && Math.abs(largestJump(reading, state.pending.reading).pct) <= CONFIRM_TOLERANCE_PCT) {
+    return { state: { ...state, pending: null }, verdict: 'confirm' };
+  }
+
+  return {
+    state: { ...state, pending: { reading, source, metric: jump.metric, changePct: jump.pct, at } },
+    verdict: 'hold',
+  };
+};
+
+/** Tracks how long the source has been returning the very same reading. */
+export const trackRepeats = (state: HealthState, reading: MarketReading): HealthState => {
+  // Without a payload timestamp only the prices can tell a cached answer apart
+  const key = [reading.bcv.units, reading.usdt.units, reading.timestampSource === 'payload' ? reading.timestamp.getTime() : ''].join('|');
+  return key === state.readingKey
+    ? state
+    : { ...state, readingKey: key, repeatedSince: reading.receivedAt.getTime() };
+};
+
+/** Explains why the last reading can't be trusted as current, or null when it can. */
+export const describeStaleness = (
+  state: HealthState,
+  reading: MarketReading,
+  config: QualityConfig,
+  now = Date.now(),
+): StaleReason | null => {
+  const limit = config.staleAfterMinutes * MINUTE;
+  if (limit <= 0) return null;
+  if (reading.timestampSource === 'payload' && now - reading.timestamp.getTime() > limit) {
+    return { kind: 'source', since: reading.timestamp.getTime() };
+  }
+  if (state.repeatedSince !== null && now - state.repeatedSince > limit) {
+    return { kind: 'repeated', since: state.repeatedSince };
+  }
+  return null;
+};
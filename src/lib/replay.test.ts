@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { parseRecording } from './replay';
+import { MessageError } from './i18n';
+import { parseMarketPayload } from './parse';
+import { amountToNumber } from './amount';
+
+// What the recording would show on screen, frame by frame
+const readings = (text: string) =>
+  parseRecording(text, 'test.csv').frames.map((f) => parseMarketPayload(f.payload, new Date(f.t)));
+
+const rejection = (text: string) => {
+  try {
+    parseRecording(text, 'test.csv');
+  } catch (err) {
+    return err instanceof MessageError ? err.text : err;
+  }
+  throw new Error('expected the recording to be rejected');
+};
+
+describe('parseRecording', () => {
+  it('reads a comma-separated file with English decimals', () => {
+    const [reading] = readings('timestamp,bcv,usdt\n2026-03-01T12:00:00Z,51.2500,55.1000');
+
+    expect(amountToNumber(reading.bcv)).toBe(51.25);
+    expect(amountToNumber(reading.usdt)).toBe(55.1);
+  });
+
+  it('reads a semicolon-separated file with Venezuelan decimals', () => {
+    const [reading] = readings('fecha;BCV;USDT;brecha_porcentaje\n2026-03-01T12:00:00Z;"Bs. 1.051,20";1.130,00;7.50%');
+
+    expect(amountToNumber(reading.bcv)).toBe(1051.2);
+    expect(amountToNumber(reading.usdt)).toBe(1130);
+    expect(reading.gapPct).toBe(7.5);
+  });
+
+  it('accepts the column names of the webhook, the session export and their aliases', () => {
+    const webhook = parseRecording('timestamp,precio_pivote_bcv,precio_paralelo_usdt,brecha_bs\n1772366400,51.2,55,3.8', 'a.csv');
+    const exported = parseRecording('Time,Bcv,Usdt,Gap_Bs,Gap_Pct\n1772366400000,51.2,55,3.8,7.42', 'b.csv');
+
+    expect(webhook.frames[0].payload.analisis).toMatchObject({ precio_pivote_bcv: '51.2', precio_paralelo_usdt: '55', brecha_bs: '3.8' });
+    expect(exported.frames[0].payload.analisis).toMatchObject({ brecha_bs: '3.8', brecha_porcentaje: '7.42' });
+    expect(webhook.frames[0].t).toBe(exported.frames[0].t);
+  });
+
+  it('plays rows in time order whatever order the file has', () => {
+    const { frames } = parseRecording(JSON.stringify([
+      { timestamp: '2026-03-01T12:02:00Z', bcv: 51.2, usdt: 55.2 },
+      { timestamp: '2026-03-01T12:00:00Z', bcv: 51.2, usdt: 55 },
+      { analisis: { precio_pivote_bcv: 51.2, precio_paralelo_usdt: 55.1 }, timestamp: '2026-03-01T12:01:00Z' },
+    ]), 'test.json');
+
+    expect(frames.map((f) => new Date(f.t).toISOString().slice(11, 16))).toEqual(['12:00', '12:01', '12:02']);
+  });
+
+  it.each([
+    ['a header alone', 'timestamp,bcv,usdt', { key: 'replay.noRows' }],
+    ['a missing price column', 'timestamp,bcv\n2026-03-01T12:00:00Z,51.2', { key: 'replay.missingColumn', vars: { column: 'precio_paralelo_usdt' } }],
+    ['a row without a date', 'timestamp,bcv,usdt\n2026-03-01T12:00:00Z,51.2,55\nayer,51.2,55', { key: 'replay.rowDate', vars: { row: 2 } }],
+    ['a row with a bad price', 'timestamp,bcv,usdt\n2026-03-01T12:00:00Z,n/d,55', { key: 'replay.rowField', vars: { row: 1, field: 'precio_pivote_bcv', issue: { key: 'issue.number' } } }],
+    ['an empty list', '[]', { key: 'replay.empty' }],
+    ['an object without frames', '{"app":"hoole"}', { key: 'replay.notList' }],
+  ])('rejects %s', (_, text, message) => {
+    expect(rejection(text)).toEqual(message);
+  });
+});
@@ -0,0 +1,282 @@
+import { parseMarketPayload, PayloadError } from './parse';
+import { MessageError } from './i18n';
+import type { Text } from './i18n';
+
+// --- Demo Replay ---
+
+export interface ReplayFrame {
+  t: number; // scenario time in ms; becomes the reading's receivedAt so rule windows use it
+  payload: { analisis: Record<string, unknown>; timestamp?: string };
+}
+
+export interface ReplayScenario {
+  name: Text; // the file name for recordings
+  frames: ReplayFrame[]; // sorted by t
+}
+
+export interface ReplayState {
+  index: number; // last frame played, -1 before the first
+  playing: boolean;
+  speed: number;
+}
+
+export interface SyntheticOptions {
+  frames: number;
+  stepSeconds: number;
+  bcv: number;
+  gapPct: number; // starting gap, also the level the walk reverts to
+  volatility: number; // standard deviation of each step, in gap points
+  seed: number;
+}
+
+export const REPLAY_SPEEDS = [1, 5, 10, 30, 60];
+
+export const DEFAULT_SYNTHETIC: SyntheticOptions = {
+  frames: 720,
+  stepSeconds: 60,
+  bcv: 51.2,
+  gapPct: 7.5,
+  volatility: 0.2,
+  seed: 1,
+};
+
+const TICK_MS = 250;
+const MAX_IDLE_MS = 10 * 60 * 1000; // longer gaps in a recording are shortened to this
+const MEAN_REVERSION = 0.02;
+
+// Lower-case column or key names accepted for each webhook field, including the session export's
+const FIELD_ALIASES: Record<string, string[]> = {
+  timestamp: ['timestamp', 'fecha', 'time', 't'],
+  precio_pivote_bcv: ['precio_pivote_bcv', 'bcv'],
+  precio_paralelo_usdt: ['precio_paralelo_usdt', 'usdt'],
+  brecha_bs: ['brecha_bs', 'gap_bs', 'gapbs'],
+  brecha_porcentaje: ['brecha_porcentaje', 'gap_pct', 'gappct'],
+};
+
+const withAliases = (row: Record<string, unknown>) => {
+  const byName = new Map(Object.entries(row).map(([k, v]) => [k.toLowerCase(), v]));
+  return Object.fromEntries(Object.entries(FIELD_ALIASES)
+    .map(([field, aliases]) => [field, aliases.map((a) => byName.get(a)).find((v) => v !== undefined && v !== '')])
+    .filter(([, v]) => v !== undefined));
+};
+
+// --- Synthetic series ---
+
+// mulberry32, so the same seed always produces the same scenario
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6D2B79F5) | 0;
+  let r = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r;
+  return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+};
+
+const formatVes = (val: number) => `Bs. ${val.toFixed(2).replace('.', ',')}`;
+
+/** Random walk of the gap around its starting level, formatted like the n8n webhook. */
+export const generateRandomWalk = (options: SyntheticOptions, start = Date.now()): ReplayScenario => {
+  const random = seededRandom(options.seed);
+  const gaussian = () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+  let bcv = options.bcv;
+  let gap = options.gapPct;
+  const frames: ReplayFrame[] = [];
+
+  for (let i = 0; i < options.frames; i++) {
+    if (i > 0) {
+      gap += gaussian() * options.volatility + (options.gapPct - gap) * MEAN_REVERSION;
+      gap = Math.max(gap, -5);
+      if (random() < 0.01) bcv *= 1 + random() * 0.01; // the official rate only moves in occasional steps
+    }
+    const bcvRounded = Math.round(bcv * 100) / 100;
+    const usdt = Math.round(bcvRounded * (1 + gap / 100) * 100) / 100;
+    const t = start + i * options.stepSeconds * 1000;
+    frames.push({
+      t,
+      payload: {
+        analisis: {
+          precio_pivote_bcv: formatVes(bcvRounded),
+          precio_paralelo_usdt: formatVes(usdt),
+          brecha_bs: formatVes(usdt - bcvRounded),
+          brecha_porcentaje: `${(((usdt - bcvRounded) / bcvRounded) * 100).toFixed(2)}%`,
+        },
+        timestamp: new Date(t).toISOString(),
+      },
+    });
+  }
+  return { name: { key: 'replay.synthetic', vars: { seed: options.seed } }, frames };
+};
+
+// --- Recorded sessions ---
+
+const parseFrameTime = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? (value < 1e12 ? value * 1000 : value) : null;
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return parseFrameTime(Number(trimmed));
+  const t = Date.parse(trimmed);
+  return Number.isNaN(t) ? null : t;
+};
+
+const splitCsvLine = (line: string, delimiter: string) => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else cell += ch;
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell);
+  return cells.map((c) => c.trim());
+};
+
+// Turns CSV rows into objects keyed by the n8n field names
+const csvRows = (text: string): Record<string, string>[] => {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim());
+  if (lines.length < 2) throw new MessageError('replay.noRows');
+  // Spanish spreadsheets use ";" because "," is the decimal separator
+  const delimiter = lines[0].includes(';') ? ';' : ',';
+  const header = splitCsvLine(lines[0], delimiter).map((h) => h.toLowerCase());
+  const columns = Object.entries(FIELD_ALIASES).map(([field, aliases]) => [field, header.findIndex((h) => aliases.includes(h))] as const);
+  for (const field of ['timestamp', 'precio_pivote_bcv', 'precio_paralelo_usdt']) {
+    if (columns.find(([f]) => f === field)![1] < 0) throw new MessageError('replay.missingColumn', { column: field });
+  }
+  return lines.slice(1).map((line) => {
+    const cells = splitCsvLine(line, delimiter);
+    return Object.fromEntries(columns.filter(([, i]) => i >= 0 && cells[i] !== '').map(([field, i]) => [field, cells[i]]));
+  });
+};
+
+const toFrame = (row: unknown, position: number): ReplayFrame => {
+  const obj = row && typeof row === 'object' ? row as Record<string, unknown> : {};
+  // Accepts the webhook shape ({ analisis, timestamp }) or flat rows
+  const analisis = obj.analisis && typeof obj.analisis === 'object' ? obj.analisis as Record<string, unknown> : withAliases(obj);
+  const rawTime = obj.timestamp ?? analisis.timestamp;
+  const t = parseFrameTime(rawTime);
+  if (t === null) throw new MessageError('replay.rowDate', { row: position });
+  const payload = { analisis, timestamp: new Date(t).toISOString() };
+  try {
+    parseMarketPayload(payload, new Date(t));
+  } catch (err) {
+    if (err instanceof PayloadError && err.issues.length > 0) {
+      const [issue] = err.issues;
+      throw new MessageError('replay.rowField', { row: position, field: issue.field, issue: { key: `issue.${issue.code}` } });
+    }
+    throw err;
+  }
+  return { t, payload };
+};
+
+/** Loads a recorded session from JSON (array of payloads) or CSV text. */
+export const parseRecording = (text: string, name: string): ReplayScenario => {
+  const trimmed = text.trim();
+  let rows: unknown[];
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(trimmed);
+    } catch {
+      throw new MessageError('settings.invalidJson');
+    }
+    const list = Array.isArray(raw) ? raw : raw && typeof raw === 'object' ? (raw as Record<string, unknown>).frames ?? (raw as Record<string, unknown>).readings : null;
+    if (!Array.isArray(list)) throw new MessageError('replay.notList');
+    rows = list;
+  } else {
+    rows = csvRows(trimmed);
+  }
+  if (rows.length === 0) throw new MessageError('replay.empty');
+  const frames = rows.map((row, i) => toFrame(row, i + 1)).sort((a, b) => a.t - b.t);
+  return { name, frames };
+};
+
+// --- Playback ---
+
+export interface ReplayPlayer {
+  play: () => void;
+  pause: () => void;
+  seek: (index: number) => void;
+  setSpeed: (speed: number) => void;
+  destroy: () => void;
+}
+
+interface PlayerOptions {
+  frames: ReplayFrame[];
+  onFrame: (frame: ReplayFrame, jumped: boolean) => void; // jumped: seek or restart, history before it no longer applies
+  onState: (state: ReplayState) => void;
+}
+
+/**
+ * Plays frames back on a scenario clock that runs `speed` times faster than
+ * real time, emitting every frame the clock passes so none are skipped at
+ * high speeds.
+ */
+export const createReplayPlayer = ({ frames, onFrame, onState }: PlayerOptions): ReplayPlayer => {
+  let index = -1;
+  let clock = frames[0]?.t ?? 0;
+  let speed = 1;
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const report = () => onState({ index, playing: timer !== null, speed });
+
+  const emit = (i: number, jumped: boolean) => {
+    index = i;
+    clock = frames[i].t;
+    onFrame(frames[i], jumped);
+  };
+
+  const stopTimer = () => {
+    if (timer) clearInterval(timer);
+    timer = null;
+  };
+
+  const tick = () => {
+    const next = frames[index + 1];
+    if (!next) {
+      stopTimer();
+      report();
+      return;
+    }
+    clock = Math.max(clock, next.t - MAX_IDLE_MS) + TICK_MS * speed;
+    let emitted = false;
+    while (index + 1 < frames.length && frames[index + 1].t <= clock) {
+      emit(index + 1, false);
+      emitted = true;
+    }
+    if (index === frames.length - 1) stopTimer();
+    if (emitted || !timer) report();
+  };
+
+  const seek = (target: number) => {
+    if (frames.length === 0) return;
+    emit(Math.max(0, Math.min(target, frames.length - 1)), true);
+    report();
+  };
+
+  return {
+    play: () => {
+      if (timer || frames.length === 0) return;
+      if (index < 0 || index === frames.length - 1) emit(0, true);
+      timer = setInterval(tick, TICK_MS);
+      report();
+    },
+    pause: () => {
+      stopTimer();
+      report();
+    },
+    seek,
+    setSpeed: (value: number) => {
+      speed = value;
+      report();
+    },
+    destroy: stopTimer,
+  };
+};
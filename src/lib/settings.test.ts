@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { applySettingsOverrides, createProfile, DEFAULT_SETTINGS, editSettings, readQueryOverrides } from './settings';
+import type { SettingsState } from './settings';
+
+const backup = createProfile('Respaldo');
+
+const fromLink = (search: string): SettingsState => ({
+  stored: { ...DEFAULT_SETTINGS, profiles: [...DEFAULT_SETTINGS.profiles, backup] },
+  overrides: readQueryOverrides(search),
+});
+
+describe('URL overrides', () => {
+  it('win over the stored settings when read', () => {
+    const state = fromLink('?demo=1&muted=1&profile=respaldo&lang=en');
+    const settings = applySettingsOverrides(state.stored, state.overrides);
+
+    expect(settings).toMatchObject({ demo: true, muted: true, activeProfileId: backup.id, language: 'en' });
+    expect(state.stored).toMatchObject({ demo: false, muted: false, activeProfileId: 'default', language: 'es' });
+  });
+
+  it('are not stored by unrelated edits', () => {
+    const next = editSettings(fromLink('?demo=1&muted=1&profile=respaldo'), (prev) => ({ ...prev, channels: [] }));
+
+    expect(next.stored).toMatchObject({ demo: false, muted: false, activeProfileId: 'default' });
+    expect(next.overrides).toMatchObject({ demo: true, muted: true, profile: 'respaldo' });
+  });
+
+  it('give way to a value the user changes', () => {
+    const next = editSettings(fromLink('?muted=1&demo=1'), (prev) => ({ ...prev, muted: false }));
+
+    expect(next.stored.muted).toBe(false);
+    expect(next.overrides.muted).toBeUndefined();
+    expect(next.stored.demo).toBe(false);
+    expect(next.overrides.demo).toBe(true);
+  });
+});
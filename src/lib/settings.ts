@@ -0,0 +1,336 @@
+import { DEFAULT_SOURCES, PROVIDER_KIND_LABELS } from './providers';
+import type { ProviderConfig, SourcesConfig } from './providers';
+import { STREAM_KIND_LABELS } from './stream';
+import { isRule } from './alertRules';
+import type { AlertRule } from './alertRules';
+import { CHANNEL_KIND_LABELS } from './dispatch';
+import type { ChannelConfig } from './dispatch';
+import { PAIR_BASES, PAIR_CURRENCIES } from './pairs';
+import type { GapPair, PriceSource } from './pairs';
+import { LANGUAGE_LOCALES, MessageError } from './i18n';
+import type { Language, Message } from './i18n';
+
+// --- Persistent Settings & Profiles ---
+
+export interface Profile {
+  id: string;
+  name: string;
+  sources: SourcesConfig;
+  pairs: GapPair[]; // markets tracked next to BCV / USDT
+}
+
+export interface Settings {
+  profiles: Profile[];
+  activeProfileId: string;
+  muted: boolean;
+  demo: boolean;
+  channels: ChannelConfig[]; // outbound alert destinations, shared by every profile
+  language: Language;
+}
+
+/** Values taken from the page URL. They win over stored settings but are never saved. */
+export interface QueryOverrides {
+  webhook?: string;
+  stream?: string;
+  profile?: string;
+  demo?: boolean;
+  muted?: boolean;
+  language?: Language;
+}
+
+export interface SettingsBundle {
+  app: 'hoole-gap-monitor';
+  version: 1;
+  exportedAt: string;
+  settings: Settings;
+  rules: AlertRule[];
+}
+
+const STORAGE_KEY = 'hoole.settings';
+
+export const DEFAULT_SETTINGS: Settings = {
+  profiles: [{ id: 'default', name: 'VPS Producción', sources: DEFAULT_SOURCES, pairs: [] }],
+  activeProfileId: 'default',
+  muted: false,
+  demo: false,
+  channels: [],
+  language: 'es',
+};
+
+export const createProfile = (name: string, sources: SourcesConfig = DEFAULT_SOURCES, pairs: GapPair[] = []): Profile => ({
+  id: `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+  name,
+  sources,
+  pairs,
+});
+
+export const activeProfile = (settings: Settings) =>
+  settings.profiles.find((p) => p.id === settings.activeProfileId) ?? settings.profiles[0];
+
+// --- Validation ---
+
+/**
+ * Returns what is wrong with an unusable URL, or null when it is fine.
+ * Relative paths are only allowed for files served with the app.
+ */
+export const validateUrl = (url: string, { protocols = ['http:', 'https:'], allowRelative = false } = {}): Message | null => {
+  const value = url.trim();
+  if (!value) return { key: 'validation.urlRequired' };
+  if (allowRelative && value.startsWith('/')) return null;
+  let parsed: URL;
+  try {
+    parsed = new URL(value);
+  } catch {
+    return { key: 'validation.urlInvalid' };
+  }
+  if (!protocols.includes(parsed.protocol)) return { key: 'validation.protocol', vars: { protocols: protocols.map((p) => p.replace(':', '')).join('/') } };
+  if (!parsed.hostname) return { key: 'validation.host' };
+  return null;
+};
+
+export const validateProviderUrl = (provider: ProviderConfig) =>
+  validateUrl(provider.url, { allowRelative: provider.kind === 'static' });
+
+export const validateStreamUrl = (sources: SourcesConfig) =>
+  sources.stream.kind === 'off'
+    ? null
+    : validateUrl(sources.stream.url, { protocols: sources.stream.kind === 'ws' ? ['ws:', 'wss:'] : ['http:', 'https:'] });
+
+export const validateChannel = (channel: ChannelConfig): Message | null => {
+  const urlError = validateUrl(channel.url);
+  if (urlError) return urlError;
+  if (channel.kind === 'telegram' && !channel.token.trim()) return { key: 'validation.botToken' };
+  if (channel.kind === 'telegram' && !channel.target.trim()) return { key: 'validation.chatId' };
+  if (channel.kind === 'email' && !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(channel.target.trim())) return { key: 'validation.email' };
+  return null;
+};
+
+export const validatePair = (pair: GapPair): Message | null => {
+  if (!pair.name.trim()) return { key: 'validation.name' };
+  const urlError = validateUrl(pair.official.url) ?? validateUrl(pair.parallel.url);
+  if (urlError) return urlError;
+  if (pair.low >= pair.high) return { key: 'validation.thresholds' };
+  return null;
+};
+
+const isObject = (val: unknown): val is Record<string, unknown> => !!val && typeof val === 'object' && !Array.isArray(val);
+
+// Fills anything missing with defaults so older or hand-edited configs still load
+const normalizeSources = (raw: unknown): SourcesConfig => {
+  if (!isObject(raw)) return DEFAULT_SOURCES;
+  const providers = Array.isArray(raw.providers)
+    ? raw.providers.filter(isObject).filter((p) => typeof p.id === 'string' && typeof p.url === 'string' && typeof p.kind === 'string' && p.kind in PROVIDER_KIND_LABELS)
+      .map((p): ProviderConfig => ({
+        id: p.id as string,
+        name: typeof p.name === 'string' ? p.name : PROVIDER_KIND_LABELS[p.kind as ProviderConfig['kind']],
+        kind: p.kind as ProviderConfig['kind'],
+        url: p.url as string,
+        enabled: p.enabled !== false,
+        mapping: {
+          bcv: isObject(p.mapping) && typeof p.mapping.bcv === 'string' ? p.mapping.bcv : '',
+          usdt: isObject(p.mapping) && typeof p.mapping.usdt === 'string' ? p.mapping.usdt : '',
+          timestamp: isObject(p.mapping) && typeof p.mapping.timestamp === 'string' ? p.mapping.timestamp : '',
+        },
+      }))
+    : DEFAULT_SOURCES.providers;
+  const stream = isObject(raw.stream) && typeof raw.stream.kind === 'string' && raw.stream.kind in STREAM_KIND_LABELS
+    ? { kind: raw.stream.kind as SourcesConfig['stream']['kind'], url: typeof raw.stream.url === 'string' ? raw.stream.url : '' }
+    : DEFAULT_SOURCES.stream;
+  return {
+    providers,
+    strategy: raw.strategy === 'aggregate' ? 'aggregate' : 'failover',
+    tolerancePct: typeof raw.tolerancePct === 'number' && raw.tolerancePct >= 0 ? raw.tolerancePct : DEFAULT_SOURCES.tolerancePct,
+    staleAfterMinutes: typeof raw.staleAfterMinutes === 'number' && raw.staleAfterMinutes >= 0 ? raw.staleAfterMinutes : DEFAULT_SOURCES.staleAfterMinutes,
+    outlierPct: typeof raw.outlierPct === 'number' && raw.outlierPct >= 0 ? raw.outlierPct : DEFAULT_SOURCES.outlierPct,
+    stream,
+  };
+};
+
+const normalizeChannels = (raw: unknown): ChannelConfig[] =>
+  Array.isArray(raw)
+    ? raw.filter(isObject).filter((c) => typeof c.id === 'string' && typeof c.kind === 'string' && c.kind in CHANNEL_KIND_LABELS)
+      .map((c): ChannelConfig => ({
+        id: c.id as string,
+        name: typeof c.name === 'string' ? c.name : CHANNEL_KIND_LABELS[c.kind as ChannelConfig['kind']],
+        kind: c.kind as ChannelConfig['kind'],
+        enabled: c.enabled !== false,
+        url: typeof c.url === 'string' ? c.url : '',
+        token: typeof c.token === 'string' ? c.token : '',
+        target: typeof c.target === 'string' ? c.target : '',
+        template: typeof c.template === 'string' ? c.template : '',
+        minIntervalMinutes: typeof c.minIntervalMinutes === 'number' && c.minIntervalMinutes >= 0 ? c.minIntervalMinutes : 5,
+      }))
+    : [];
+
+const normalizePriceSource = (raw: unknown): PriceSource => ({
+  url: isObject(raw) && typeof raw.url === 'string' ? raw.url : '',
+  path: isObject(raw) && typeof raw.path === 'string' ? raw.path : '',
+  locale: isObject(raw) && raw.locale === 'es-VE' ? 'es-VE' : 'en-US',
+});
+
+const normalizePairs = (raw: unknown): GapPair[] =>
+  Array.isArray(raw)
+    ? raw.filter(isObject).filter((p) => typeof p.id === 'string' && typeof p.name === 'string')
+      .map((p): GapPair => ({
+        id: p.id as string,
+        name: p.name as string,
+        base: PAIR_BASES.includes(p.base as GapPair['base']) ? p.base as GapPair['base'] : 'USD',
+        currency: PAIR_CURRENCIES.includes(p.currency as GapPair['currency']) ? p.currency as GapPair['currency'] : 'VES',
+        officialLabel: typeof p.officialLabel === 'string' ? p.officialLabel : 'Oficial',
+        parallelLabel: typeof p.parallelLabel === 'string' ? p.parallelLabel : 'Paralelo',
+        official: normalizePriceSource(p.official),
+        parallel: normalizePriceSource(p.parallel),
+        high: typeof p.high === 'number' ? p.high : 20,
+        low: typeof p.low === 'number' ? p.low : 5,
+        enabled: p.enabled !== false,
+      }))
+    : [];
+
+const normalizeSettings = (raw: unknown): Settings | null => {
+  if (!isObject(raw) || !Array.isArray(raw.profiles)) return null;
+  const profiles = raw.profiles
+    .filter(isObject)
+    .filter((p) => typeof p.id === 'string' && typeof p.name === 'string')
+    .map((p) => ({ id: p.id as string, name: p.name as string, sources: normalizeSources(p.sources), pairs: normalizePairs(p.pairs) }));
+  if (profiles.length === 0) return null;
+  const activeProfileId = profiles.some((p) => p.id === raw.activeProfileId) ? raw.activeProfileId as string : profiles[0].id;
+  return {
+    profiles,
+    activeProfileId,
+    muted: raw.muted === true,
+    demo: raw.demo === true,
+    channels: normalizeChannels(raw.channels),
+    language: typeof raw.language === 'string' && raw.language in LANGUAGE_LOCALES ? raw.language as Language : 'es',
+  };
+};
+
+// --- Persistence ---
+
+export const loadSettings = (): Settings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return (raw && normalizeSettings(JSON.parse(raw))) || DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: Settings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) { console.error("Settings storage error:", e); }
+};
+
+// --- URL overrides ---
+
+const parseFlag = (val: string | null) => (val === null ? undefined : ['1', 'true', 'si', 'yes'].includes(val.toLowerCase()));
+
+/** Reads ?webhook=, ?stream=, ?profile=, ?demo=, ?muted= and ?lang= from a query string. */
+export const readQueryOverrides = (search: string): QueryOverrides => {
+  const params = new URLSearchParams(search);
+  const webhook = params.get('webhook') ?? undefined;
+  const stream = params.get('stream') ?? undefined;
+  const lang = params.get('lang')?.toLowerCase();
+  return {
+    webhook: webhook && !validateUrl(webhook) ? webhook : undefined,
+    stream: stream && !validateUrl(stream, { protocols: ['http:', 'https:', 'ws:', 'wss:'] }) ? stream : undefined,
+    profile: params.get('profile') ?? undefined,
+    demo: parseFlag(params.get('demo')),
+    muted: parseFlag(params.get('muted')),
+    language: lang && lang in LANGUAGE_LOCALES ? lang as Language : undefined,
+  };
+};
+
+export const applySourceOverrides = (sources: SourcesConfig, overrides: QueryOverrides): SourcesConfig => {
+  let next = sources;
+  if (overrides.webhook) {
+    const primary = next.providers.find((p) => p.kind === 'n8n');
+    next = {
+      ...next,
+      providers: primary
+        ? next.providers.map((p) => (p.id === primary.id ? { ...p, url: overrides.webhook!, enabled: true } : p))
+        : [{ ...DEFAULT_SOURCES.providers[0], url: overrides.webhook }, ...next.providers],
+    };
+  }
+  if (overrides.stream) {
+    next = { ...next, stream: { kind: /^wss?:/.test(overrides.stream) ? 'ws' : 'sse', url: overrides.stream } };
+  }
+  return next;
+};
+
+// Matches ?profile= against ids first, then names (case-insensitive)
+export const findProfile = (settings: Settings, ref: string) =>
+  settings.profiles.find((p) => p.id === ref) ?? settings.profiles.find((p) => p.name.toLowerCase() === ref.toLowerCase());
+
+/** What is on disk plus what the URL asked for; the two are only merged when read. */
+export interface SettingsState {
+  stored: Settings;
+  overrides: QueryOverrides;
+}
+
+export const applySettingsOverrides = (settings: Settings, overrides: QueryOverrides): Settings => {
+  const profile = overrides.profile ? findProfile(settings, overrides.profile) : undefined;
+  return {
+    ...settings,
+    activeProfileId: profile?.id ?? settings.activeProfileId,
+    demo: overrides.demo ?? settings.demo,
+    muted: overrides.muted ?? settings.muted,
+    language: overrides.language ?? settings.language,
+  };
+};
+
+/**
+ * Applies an edit made on the effective settings. Overridden values the edit left
+ * alone keep their stored value; the ones it changed stop being overridden.
+ */
+export const editSettings = (state: SettingsState, update: (prev: Settings) => Settings): SettingsState => {
+  const effective = applySettingsOverrides(state.stored, state.overrides);
+  const next = update(effective);
+  const overrides = { ...state.overrides };
+  const keep = <K extends 'activeProfileId' | 'demo' | 'muted' | 'language'>(key: K, override: keyof QueryOverrides) => {
+    if (next[key] !== effective[key]) {
+      delete overrides[override];
+      return next[key];
+    }
+    return state.stored[key];
+  };
+  const activeProfileId = keep('activeProfileId', 'profile');
+  return {
+    stored: {
+      ...next,
+      // The stored profile may be the one the edit just removed
+      activeProfileId: next.profiles.some((p) => p.id === activeProfileId) ? activeProfileId : next.activeProfileId,
+      demo: keep('demo', 'demo'),
+      muted: keep('muted', 'muted'),
+      language: keep('language', 'language'),
+    },
+    overrides,
+  };
+};
+
+// --- Import / Export ---
+
+export const exportBundle = (settings: Settings, rules: AlertRule[]): string => {
+  const bundle: SettingsBundle = {
+    app: 'hoole-gap-monitor',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    settings,
+    rules,
+  };
+  return JSON.stringify(bundle, null, 2);
+};
+
+export const importBundle = (text: string): { settings: Settings; rules: AlertRule[] | null } => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new MessageError('settings.invalidJson');
+  }
+  if (!isObject(raw) || raw.app !== 'hoole-gap-monitor') throw new MessageError('settings.notHoole');
+  const settings = normalizeSettings(raw.settings);
+  if (!settings) throw new MessageError('settings.noProfiles');
+  const rules = Array.isArray(raw.rules) ? raw.rules.filter(isRule) : null;
+  return { settings, rules };
+};
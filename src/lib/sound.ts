@@ -0,0 +1,59 @@
+import type { MarketStatus } from '../types';
+
+// --- Audio Synthesis Engine ---
+
+export type MarketSound = 'up' | 'down' | 'welcome';
+
+/** The cue for a status change: a siren when the gap widens, a chime when it closes. */
+export const soundForStatus = (status: MarketStatus, prev: MarketStatus | null): MarketSound | null => {
+  if (status === prev) return null;
+  if (status === 'devaluation') return 'up';
+  if (status === 'appreciation') return 'down';
+  return null;
+};
+
+export const playMarketSound = async (type: MarketSound) => {
+  try {
+    const AudioContextClass = (window.AudioContext || (window as any).webkitAudioContext);
+    const context = new AudioContextClass();
+    if (context.state === 'suspended') await context.resume();
+
+    if (type === 'up') {
+      const osc = context.createOscillator();
+      const gain = context.createGain();
+      osc.type = 'sawtooth';
+      osc.frequency.setValueAtTime(440, context.currentTime);
+      osc.frequency.linearRampToValueAtTime(880, context.currentTime + 0.15);
+      osc.frequency.linearRampToValueAtTime(440, context.currentTime + 0.3);
+      gain.gain.setValueAtTime(0, context.currentTime);
+      gain.gain.linearRampToValueAtTime(0.12, context.currentTime + 0.05);
+      gain.gain.linearRampToValueAtTime(0, context.currentTime + 0.4);
+      osc.connect(gain); gain.connect(context.destination);
+      osc.start(); osc.stop(context.currentTime + 0.4);
+    } else if (type === 'down') {
+      const notes = [523.25, 783.99, 1046.50];
+      notes.forEach((freq, i) => {
+        const osc = context.createOscillator();
+        const gain = context.createGain();
+        osc.type = 'sine';
+        osc.frequency.setValueAtTime(freq, context.currentTime + i * 0.08);
+        gain.gain.setValueAtTime(0, context.currentTime + i * 0.08);
+        gain.gain.linearRampToValueAtTime(0.08, context.currentTime + i * 0.08 + 0.04);
+        gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + i * 0.08 + 0.5);
+        osc.connect(gain); gain.connect(context.destination);
+        osc.start(context.currentTime + i * 0.08); osc.stop(context.currentTime + i * 0.08 + 0.5);
+      });
+    } else if (type === 'welcome') {
+      const osc = context.createOscillator();
+      const gain = context.createGain();
+      osc.type = 'sine';
+      osc.frequency.setValueAtTime(880, context.currentTime);
+      osc.frequency.exponentialRampToValueAtTime(440, context.currentTime + 0.5);
+      gain.gain.setValueAtTime(0, context.currentTime);
+      gain.gain.linearRampToValueAtTime(0.05, context.currentTime + 0.1);
+      gain.gain.linearRampToValueAtTime(0, context.currentTime + 0.5);
+      osc.connect(gain); gain.connect(context.destination);
+      osc.start(); osc.stop(context.currentTime + 0.5);
+    }
+  } catch (e) { console.error("Audio error:", e); }
+};
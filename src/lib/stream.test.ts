@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from 'vitest';
+import { startFeed } from './stream';
+import type { ConnectionState } from './stream';
+
+// Stands in for the browser WebSocket; each connection attempt is kept so tests can drive it
+class FakeSocket {
+  static opened: FakeSocket[] = [];
+  url: string;
+  closed = false;
+  onopen: (() => void) | null = null;
+  onmessage: ((e: { data: unknown }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(url: string) {
+    this.url = url;
+    FakeSocket.opened.push(this);
+  }
+
+  close() {
+    this.closed = true;
+  }
+}
+
+const latest = () => FakeSocket.opened[FakeSocket.opened.length - 1];
+
+const setup = (poll = vi.fn(async () => true)) => {
+  vi.useFakeTimers();
+  vi.spyOn(Math, 'random').mockReturnValue(1); // no jitter, so backoff delays are exact
+  FakeSocket.opened = [];
+  vi.stubGlobal('WebSocket', FakeSocket);
+  const states: ConnectionState[] = [];
+  const stop = startFeed({
+    stream: { kind: 'ws', url: 'wss://feed.test' },
+    pollIntervalMs: 30000,
+    poll,
+    onMessage: vi.fn(),
+    onState: (s) => states.push(s),
+  });
+  return { stop, poll, states };
+};
+
+// Drops the current connection and waits out the backoff before the next one
+const failAndWait = (delay: number) => {
+  latest().onerror?.();
+  vi.advanceTimersByTime(delay - 1);
+  const before = FakeSocket.opened.length;
+  vi.advanceTimersByTime(1);
+  return FakeSocket.opened.length - before;
+};
+
+// 1s doubling per attempt, capped at 30s
+const BACKOFF_STEPS = [1000, 2000, 4000, 8000, 16000, 30000];
+
+// Fails one more time than the feed retries, so it gives up on the stream
+const exhaustStream = () => {
+  BACKOFF_STEPS.forEach(failAndWait);
+  latest().onerror?.();
+};
+
+describe('startFeed', () => {
+  it('doubles the reconnect delay up to the cap', () => {
+    const { stop, states } = setup();
+
+    expect(BACKOFF_STEPS.map(failAndWait)).toEqual(BACKOFF_STEPS.map(() => 1));
+    expect(states).toEqual(['connecting', 'reconnecting']);
+    stop();
+  });
+
+  it('falls back to polling after repeated failures, then retries the stream', async () => {
+    const { stop, poll, states } = setup();
+    exhaustStream();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(states[states.length - 1]).toBe('polling');
+    expect(poll).toHaveBeenCalledOnce();
+    const attempts = FakeSocket.opened.length;
+    await vi.advanceTimersByTimeAsync(5 * 60 * 1000);
+    expect(FakeSocket.opened).toHaveLength(attempts + 1);
+    stop();
+  });
+
+  it('marks a silent connection stale and reconnects', () => {
+    const { stop, states } = setup();
+    const socket = latest();
+    socket.onopen?.();
+    socket.onmessage?.({ data: 'ping' });
+    expect(states[states.length - 1]).toBe('live');
+
+    vi.advanceTimersByTime(45000);
+    expect(states[states.length - 1]).toBe('live');
+    vi.advanceTimersByTime(5000);
+    expect(states[states.length - 1]).toBe('stale');
+    expect(socket.closed).toBe(true);
+    vi.advanceTimersByTime(1000);
+    expect(FakeSocket.opened).toHaveLength(2);
+    stop();
+  });
+
+  it('clears every timer and the socket when stopped', async () => {
+    const { stop } = setup(vi.fn(async () => false));
+    exhaustStream();
+    await vi.advanceTimersByTimeAsync(5 * 60 * 1000); // polling, and the stream being tried again
+    const socket = latest();
+    expect(socket.closed).toBe(false);
+    expect(vi.getTimerCount()).toBe(2); // heartbeat watchdog and the next poll
+
+    stop();
+    expect(vi.getTimerCount()).toBe(0);
+    expect(socket.closed).toBe(true);
+  });
+});
@@ -0,0 +1,195 @@
+// --- Live Feed (SSE / WebSocket with polling fallback) ---
+
+export type StreamKind = 'off' | 'sse' | 'ws';
+export type ConnectionState = 'connecting' | 'live' | 'reconnecting' | 'polling' | 'stale';
+
+export interface StreamConfig {
+  kind: StreamKind;
+  url: string;
+}
+
+interface FeedOptions {
+  stream: StreamConfig;
+  pollIntervalMs: number;
+  poll: () => Promise<boolean>; // resolves true when a reading was received
+  onMessage: (payload: unknown) => void;
+  onState: (state: ConnectionState) => void;
+  onPollScheduled?: (at: number | null) => void; // when the next poll runs, null when polling stops
+}
+
+export const STREAM_KIND_LABELS: Record<StreamKind, string> = {
+  off: 'Solo consulta',
+  sse: 'Server-Sent Events',
+  ws: 'WebSocket',
+};
+
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 30000;
+const MAX_ATTEMPTS = 6; // consecutive failures before falling back to polling
+const STREAM_RETRY_MS = 5 * 60 * 1000; // how long to poll before trying the stream again
+const HEARTBEAT_TIMEOUT_MS = 45000;
+const WATCHDOG_MS = 5000;
+const POLL_RETRY_BASE_MS = 5000; // first retry after a failed poll, doubling up to the max
+const POLL_RETRY_MAX_MS = 5 * 60 * 1000;
+
+// Servers should send a "heartbeat" SSE event, or "ping" / {"type":"heartbeat"} over WebSocket
+const isHeartbeat = (raw: string) => {
+  if (raw === 'ping' || raw === 'heartbeat') return true;
+  try {
+    const msg = JSON.parse(raw);
+    return msg?.type === 'heartbeat' || msg?.type === 'ping';
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Starts delivering readings, preferring the push stream when configured.
+ * Reconnects with exponential backoff, treats a silent connection as stale,
+ * and polls instead after repeated failures. Returns a cleanup function.
+ */
+export const startFeed = ({ stream, pollIntervalMs, poll, onMessage, onState, onPollScheduled }: FeedOptions) => {
+  let closed = false;
+  let socket: EventSource | WebSocket | null = null;
+  let attempts = 0;
+  let lastBeat = Date.now();
+  let lastPollOk = Date.now();
+  let state: ConnectionState | null = null;
+  let polling = false;
+  let pollFailures = 0;
+  let pollRun = 0; // bumped on every start so a poll still in flight from an earlier run can't reschedule
+  let pollTimer: ReturnType<typeof setTimeout> | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const setState = (next: ConnectionState) => {
+    if (next !== state) {
+      state = next;
+      onState(next);
+    }
+  };
+
+  // Failed polls are retried sooner at first, then less and less often while the source stays down
+  const runPoll = async (run: number) => {
+    pollTimer = null;
+    const ok = await poll();
+    if (closed || !polling || run !== pollRun) return;
+    if (ok) {
+      lastPollOk = Date.now();
+      pollFailures = 0;
+    } else {
+      pollFailures += 1;
+    }
+    setState(ok || Date.now() - lastPollOk < pollIntervalMs * 3 ? 'polling' : 'stale');
+    const delay = ok
+      ? pollIntervalMs
+      : Math.min(POLL_RETRY_BASE_MS * 2 ** (pollFailures - 1), POLL_RETRY_MAX_MS) * (0.8 + Math.random() * 0.4);
+    pollTimer = setTimeout(() => runPoll(run), delay);
+    onPollScheduled?.(Date.now() + delay);
+  };
+
+  const startPolling = () => {
+    if (polling) return;
+    polling = true;
+    pollFailures = 0;
+    setState('polling');
+    lastPollOk = Date.now();
+    runPoll(++pollRun);
+  };
+
+  const stopPolling = () => {
+    if (!polling) return;
+    polling = false;
+    if (pollTimer) clearTimeout(pollTimer);
+    pollTimer = null;
+    onPollScheduled?.(null);
+  };
+
+  const dropSocket = () => {
+    if (!socket) return;
+    socket.onopen = null;
+    socket.onmessage = null;
+    socket.onerror = null;
+    if (socket instanceof WebSocket) socket.onclose = null;
+    socket.close();
+    socket = null;
+  };
+
+  const handleRaw = (raw: string) => {
+    lastBeat = Date.now();
+    attempts = 0;
+    stopPolling();
+    setState('live');
+    if (isHeartbeat(raw)) return;
+    try {
+      onMessage(JSON.parse(raw));
+    } catch (e) { console.error("Stream payload error:", e); }
+  };
+
+  const scheduleReconnect = () => {
+    dropSocket();
+    if (closed || retryTimer) return;
+    attempts += 1;
+    if (attempts > MAX_ATTEMPTS) {
+      // Streaming looks unavailable: poll for a while, then give it another go
+      startPolling();
+      retryTimer = setTimeout(() => {
+        retryTimer = null;
+        attempts = 0;
+        connect();
+      }, STREAM_RETRY_MS);
+      return;
+    }
+    if (!polling && state !== 'stale') setState('reconnecting');
+    const delay = Math.min(BACKOFF_BASE_MS * 2 ** (attempts - 1), BACKOFF_MAX_MS);
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      connect();
+    }, delay * (0.5 + Math.random() * 0.5));
+  };
+
+  const connect = () => {
+    if (closed) return;
+    if (!polling) setState(attempts === 0 ? 'connecting' : 'reconnecting');
+    lastBeat = Date.now();
+    try {
+      if (stream.kind === 'sse') {
+        const es = new EventSource(stream.url);
+        es.onopen = () => { lastBeat = Date.now(); };
+        es.onmessage = (e) => handleRaw(e.data);
+        es.addEventListener('heartbeat', () => handleRaw('heartbeat'));
+        // EventSource retries on its own; we take over to apply our backoff
+        es.onerror = scheduleReconnect;
+        socket = es;
+      } else {
+        const ws = new WebSocket(stream.url);
+        ws.onopen = () => { lastBeat = Date.now(); };
+        ws.onmessage = (e) => handleRaw(typeof e.data === 'string' ? e.data : '');
+        ws.onerror = scheduleReconnect;
+        ws.onclose = scheduleReconnect;
+        socket = ws;
+      }
+    } catch (e) {
+      console.error("Stream error:", e);
+      scheduleReconnect();
+    }
+  };
+
+  // A connection that stays open but silent is as bad as a dropped one
+  const watchdog = setInterval(() => {
+    if (socket && Date.now() - lastBeat > HEARTBEAT_TIMEOUT_MS) {
+      setState('stale');
+      scheduleReconnect();
+    }
+  }, WATCHDOG_MS);
+
+  if (stream.kind === 'off' || !stream.url) startPolling();
+  else connect();
+
+  return () => {
+    closed = true;
+    clearInterval(watchdog);
+    if (retryTimer) clearTimeout(retryTimer);
+    stopPolling();
+    dropSocket();
+  };
+};
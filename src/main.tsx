@@ -2,6 +2,10 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { registerServiceWorker } from './lib/pwa'
+
+// In dev the worker would cache Vite's unbundled modules, so only register in builds
+if (import.meta.env.PROD) registerServiceWorker()
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -0,0 +1,43 @@
+import { vi } from 'vitest';
+import { parseMarketPayload } from '../lib/parse';
+import type { SourceInfo } from '../types';
+
+// --- Shared Test Fixtures ---
+
+export const BCV = 50;
+
+/** A webhook payload whose gap over the BCV rate is `gapPct`. */
+export const payloadForGap = (gapPct: number, timestamp?: string) => ({
+  analisis: {
+    precio_pivote_bcv: BCV,
+    precio_paralelo_usdt: Math.round(BCV * (1 + gapPct / 100) * 10000) / 10000,
+  },
+  timestamp,
+});
+
+export const readingForGap = (gapPct: number, at = 0) => parseMarketPayload(payloadForGap(gapPct), new Date(at));
+
+export const TEST_SOURCE: SourceInfo = { label: 'Test', quotes: [], spreadPct: 0, disagree: false, failed: 0 };
+
+export const jsonResponse = (body: unknown, status = 200) => ({
+  ok: status >= 200 && status < 300,
+  status,
+  json: async () => body,
+}) as Response;
+
+/**
+ * Replaces the global fetch; each call takes the next answer, the last one
+ * repeats. Anything that isn't a response is thrown.
+ */
+export const mockFetch = (...answers: unknown[]) => {
+  let call = 0;
+  const fetchMock = vi.fn(async () => {
+    const answer = answers[Math.min(call++, answers.length - 1)];
+    if (!(answer && typeof answer === 'object' && 'status' in answer)) throw answer;
+    return answer as Response;
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+export const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
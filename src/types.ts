@@ -0,0 +1,45 @@
+import type { Amount } from './lib/amount';
+import type { Text } from './lib/i18n';
+
+export type MarketStatus = 'stable' | 'devaluation' | 'appreciation';
+
+// What went wrong with a field, for the interface to describe in its own language
+export type IssueCode = 'required' | 'type' | 'number' | 'percent' | 'positive' | 'object' | 'price' | 'future' | 'mismatch';
+
+export interface FieldIssue {
+  field: string;
+  code: IssueCode;
+  message: string;
+  value?: unknown;
+}
+
+export interface MarketReading {
+  bcv: Amount;
+  usdt: Amount;
+  gapBs: Amount;
+  gapPct: number;
+  timestamp: Date;
+  timestampSource: 'payload' | 'client';
+  receivedAt: Date;
+  warnings: FieldIssue[]; // non-fatal problems, e.g. a gap that doesn't match the prices
+}
+
+export interface SourceQuote {
+  providerId: string;
+  name: string;
+  bcv: Amount;
+  usdt: Amount;
+}
+
+export interface SourceInfo {
+  label: Text; // which source, or aggregate, produced the reading
+  quotes: SourceQuote[];
+  spreadPct: number; // widest disagreement between sources, in %
+  disagree: boolean;
+  failed: number; // sources that didn't answer this round
+}
+
+export interface MarketData extends MarketReading {
+  status: MarketStatus;
+  source: SourceInfo;
+}